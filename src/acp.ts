@@ -0,0 +1,147 @@
+import type { Cell, HexString } from "@ckb-lumos/base";
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { hexify } from "@ckb-lumos/codec/lib/bytes.js";
+import { I8Cell, I8Script } from "./cell.js";
+import type { ConfigAdapter } from "./config.js";
+import { addCells } from "./transaction.js";
+import { isUdtData, udtAmount } from "./udt.js";
+import { hex, scriptEq } from "./utils.js";
+import { Uint8, Uint128 } from "./codec.js";
+
+export interface AcpMinimums {
+  minCkb?: bigint;
+  minUdt?: bigint;
+}
+
+// ACP args are: blake160 | optional min CKB exponent | optional min UDT exponent
+// Minimums are expressed as powers of ten, in shannons and in UDT base units
+export function acpArgs(
+  blake160: HexString,
+  minCkbExponent?: number,
+  minUdtExponent?: number,
+) {
+  let args = blake160;
+  if (minCkbExponent !== undefined || minUdtExponent !== undefined) {
+    args += hexify(Uint8.pack(minCkbExponent ?? 0)).slice(2);
+  }
+  if (minUdtExponent !== undefined) {
+    args += hexify(Uint8.pack(minUdtExponent)).slice(2);
+  }
+  return args;
+}
+
+export function acpAccountLockFrom(
+  blake160: HexString,
+  config: ConfigAdapter,
+  minCkbExponent?: number,
+  minUdtExponent?: number,
+) {
+  return I8Script.from({
+    ...config.defaultScript("ANYONE_CAN_PAY"),
+    args: acpArgs(blake160, minCkbExponent, minUdtExponent),
+  });
+}
+
+export function acpMinimums(args: HexString): AcpMinimums {
+  const exponentOf = (byteIndex: number) => {
+    const start = 2 + 2 * byteIndex;
+    return args.length >= start + 2
+      ? 10n ** BigInt(Uint8.unpack("0x" + args.slice(start, start + 2)))
+      : undefined;
+  };
+  return { minCkb: exponentOf(20), minUdt: exponentOf(21) };
+}
+
+export function isAcp(c: Cell, config: ConfigAdapter) {
+  const { codeHash, hashType } = config.defaultScript("ANYONE_CAN_PAY");
+  const lock = c.cellOutput.lock;
+  return lock.codeHash === codeHash && lock.hashType === hashType;
+}
+
+// Recognizes both plain CKB ACP cells and ACP cells of udtType, whose lock is expanded by accountLockExpander
+export function acpSifter(
+  inputs: readonly Cell[],
+  accountLockExpander: (c: Cell) => I8Script | undefined,
+  config: ConfigAdapter,
+  udtType?: I8Script,
+) {
+  const acps: I8Cell[] = [];
+  const minimums: AcpMinimums[] = [];
+  const notAcps: Cell[] = [];
+
+  for (const c of inputs) {
+    const { type, capacity } = c.cellOutput;
+    const isCkbAcp = type === undefined && c.data === "0x";
+    const isUdtAcp =
+      udtType !== undefined && scriptEq(type, udtType) && isUdtData(c.data);
+    if (!isAcp(c, config) || (!isCkbAcp && !isUdtAcp)) {
+      notAcps.push(c);
+      continue;
+    }
+
+    const lock = accountLockExpander(c);
+    if (!lock) {
+      notAcps.push(c);
+      continue;
+    }
+
+    acps.push(
+      I8Cell.from({
+        ...c,
+        cellOutput: {
+          lock,
+          type: isUdtAcp ? udtType : undefined,
+          capacity,
+        },
+      }),
+    );
+    minimums.push(acpMinimums(lock.args));
+  }
+
+  return { acps, minimums, notAcps };
+}
+
+// Notes:
+// - Neither CKB nor UDT can decrease
+// - At least one of CKB and UDT must increase, by at least its minimum if set
+export function isValidAcpTopUp(input: Cell, output: Cell) {
+  const { minCkb, minUdt } = acpMinimums(input.cellOutput.lock.args);
+
+  const ckbIncrease =
+    BigInt(output.cellOutput.capacity) - BigInt(input.cellOutput.capacity);
+  const udtIncrease = input.cellOutput.type
+    ? udtAmount(output) - udtAmount(input)
+    : 0n;
+  if (ckbIncrease < 0n || udtIncrease < 0n) {
+    return false;
+  }
+
+  return (
+    (ckbIncrease > 0n && ckbIncrease >= (minCkb ?? 0n)) ||
+    (udtIncrease > 0n && udtIncrease >= (minUdt ?? 0n))
+  );
+}
+
+export const errorInvalidAcpTopUp = "ACP top-up does not respect its minimums";
+export function addAcpTopUp(
+  tx: TransactionSkeletonType,
+  acp: I8Cell,
+  ckbAmount: bigint,
+  udtAmountIncrease: bigint = 0n,
+) {
+  const toppedUp = I8Cell.from({
+    ...acp.cellOutput,
+    capacity: hex(BigInt(acp.cellOutput.capacity) + ckbAmount),
+    data:
+      udtAmountIncrease > 0n
+        ? hexify(Uint128.pack(udtAmount(acp) + udtAmountIncrease)) +
+          acp.data.slice(2 + 2 * Uint128.byteLength)
+        : acp.data,
+  });
+
+  if (!isValidAcpTopUp(acp, toppedUp)) {
+    throw Error(errorInvalidAcpTopUp);
+  }
+
+  return addCells(tx, "matched", [acp], [toppedUp]);
+}
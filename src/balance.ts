@@ -0,0 +1,170 @@
+import type { Cell, Script } from "@ckb-lumos/base";
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { minimalCellCapacityCompatible } from "@ckb-lumos/helpers";
+import type { I8Cell } from "./cell.js";
+import type { ConfigAdapter } from "./config.js";
+import {
+  ckbDelta,
+  isDao,
+  isDaoWithdrawalRequest,
+  maxWithdrawable,
+} from "./dao.js";
+import { isUdtData, udtAmount } from "./udt.js";
+import { scriptKey } from "./utils.js";
+
+export interface LockBalance {
+  lock: Script;
+  capacityIn: bigint;
+  capacityOut: bigint;
+  occupiedIn: bigint;
+  occupiedOut: bigint;
+  freeIn: bigint;
+  freeOut: bigint;
+  // Capacity held in DAO cells, both deposits and withdrawal requests
+  daoLockedIn: bigint;
+  daoLockedOut: bigint;
+  daoCompensation: bigint;
+}
+
+export interface TypeBalance {
+  // Undefined type stands for plain CKB cells
+  type: Script | undefined;
+  kind: "ckb" | "dao" | "udt" | "other";
+  cellsIn: number;
+  cellsOut: number;
+  capacityIn: bigint;
+  capacityOut: bigint;
+  occupiedIn: bigint;
+  occupiedOut: bigint;
+  // Only meaningful with udt kind
+  udtIn: bigint;
+  udtOut: bigint;
+  daoCompensation: bigint;
+}
+
+export interface BalanceSheet {
+  locks: LockBalance[];
+  types: TypeBalance[];
+  daoCompensation: bigint;
+  fee: bigint;
+}
+
+// Notes:
+// - DAO compensation is earned by withdrawal requests being withdrawn, it must come from daoSifter
+// - UDT are recognized by the XUDT and SUDT scripts of config
+// - Fee is ckbDelta, so it already accounts for DAO compensation
+export function balanceSheet(
+  tx: TransactionSkeletonType,
+  config: ConfigAdapter,
+): BalanceSheet {
+  const udtScripts = ["XUDT", "SUDT"]
+    .filter((name) => name in config.scripts)
+    .map((name) => config.defaultScript(name));
+  const kindOf = (c: Cell): TypeBalance["kind"] => {
+    const { type } = c.cellOutput;
+    if (!type) {
+      return "ckb";
+    }
+    if (isDao(c, config)) {
+      return "dao";
+    }
+    const isUdtType = udtScripts.some(
+      (s) => s.codeHash === type.codeHash && s.hashType === type.hashType,
+    );
+    return isUdtType && isUdtData(c.data) ? "udt" : "other";
+  };
+
+  const locks = new Map<string, LockBalance>();
+  const types = new Map<string, TypeBalance>();
+  const balancesOf = (c: Cell) => {
+    const { lock, type } = c.cellOutput;
+    const kind = kindOf(c);
+    const lockKey = scriptKey(lock);
+    let l = locks.get(lockKey);
+    if (!l) {
+      l = {
+        lock,
+        capacityIn: 0n,
+        capacityOut: 0n,
+        occupiedIn: 0n,
+        occupiedOut: 0n,
+        freeIn: 0n,
+        freeOut: 0n,
+        daoLockedIn: 0n,
+        daoLockedOut: 0n,
+        daoCompensation: 0n,
+      };
+      locks.set(lockKey, l);
+    }
+
+    const typeKey = type ? scriptKey(type) : "";
+    let t = types.get(typeKey);
+    if (!t) {
+      t = {
+        type,
+        kind,
+        cellsIn: 0,
+        cellsOut: 0,
+        capacityIn: 0n,
+        capacityOut: 0n,
+        occupiedIn: 0n,
+        occupiedOut: 0n,
+        udtIn: 0n,
+        udtOut: 0n,
+        daoCompensation: 0n,
+      };
+      types.set(typeKey, t);
+    }
+
+    const capacity = BigInt(c.cellOutput.capacity);
+    const occupied = minimalCellCapacityCompatible(c, {
+      validate: false,
+    }).toBigInt();
+    return { l, t, capacity, occupied, kind };
+  };
+
+  let daoCompensation = 0n;
+  for (const c of tx.inputs) {
+    const { l, t, capacity, occupied, kind } = balancesOf(c);
+    const compensation = isDaoWithdrawalRequest(c, config)
+      ? maxWithdrawable(c as I8Cell) - capacity
+      : 0n;
+    daoCompensation += compensation;
+
+    l.capacityIn += capacity;
+    l.occupiedIn += occupied;
+    l.freeIn += capacity - occupied;
+    l.daoCompensation += compensation;
+    t.cellsIn++;
+    t.capacityIn += capacity;
+    t.occupiedIn += occupied;
+    t.daoCompensation += compensation;
+    if (kind === "dao") {
+      l.daoLockedIn += capacity;
+    } else if (kind === "udt") {
+      t.udtIn += udtAmount(c);
+    }
+  }
+
+  for (const c of tx.outputs) {
+    const { l, t, capacity, occupied, kind } = balancesOf(c);
+    l.capacityOut += capacity;
+    l.occupiedOut += occupied;
+    l.freeOut += capacity - occupied;
+    t.cellsOut++;
+    t.capacityOut += capacity;
+    t.occupiedOut += occupied;
+    if (kind === "dao") {
+      l.daoLockedOut += capacity;
+    } else if (kind === "udt") {
+      t.udtOut += udtAmount(c);
+    }
+  }
+
+  return {
+    locks: [...locks.values()],
+    types: [...types.values()],
+    daoCompensation,
+    fee: ckbDelta(tx, config),
+  };
+}
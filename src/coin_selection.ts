@@ -0,0 +1,205 @@
+import type { I8Cell } from "./cell.js";
+import { shuffle } from "./utils.js";
+
+export interface CoinSelection {
+  inputs: I8Cell[];
+  leftovers: I8Cell[];
+  change: bigint;
+}
+
+// Notes:
+// - target is the capacity to be covered by the inputs, for example outputs capacity plus the base fee
+// - inputFee is the fee cost of adding one more input, so a cell is worth its capacity minus inputFee
+// - Cells worth nothing after inputFee are never selected
+// - If cells are not enough to cover target, all worthy cells are selected and change is negative
+export type CoinSelector = (
+  cells: readonly I8Cell[],
+  target: bigint,
+  inputFee: bigint,
+) => CoinSelection;
+
+export function largestFirstSelection(
+  cells: readonly I8Cell[],
+  target: bigint,
+  inputFee: bigint,
+): CoinSelection {
+  const candidates = worthyCandidates(cells, inputFee).sort((a, b) =>
+    a.value < b.value ? 1 : a.value > b.value ? -1 : 0,
+  );
+  return accumulate(cells, candidates, target, inputFee);
+}
+
+export function smallestSufficientSelection(
+  cells: readonly I8Cell[],
+  target: bigint,
+  inputFee: bigint,
+): CoinSelection {
+  let best: Candidate | undefined;
+  for (const c of worthyCandidates(cells, inputFee)) {
+    if (c.value >= target && (!best || c.value < best.value)) {
+      best = c;
+    }
+  }
+
+  // No single cell is sufficient, so fallback to accumulating the largest cells
+  if (!best) {
+    return largestFirstSelection(cells, target, inputFee);
+  }
+
+  return selectionFrom(cells, [best.cell], target, inputFee);
+}
+
+const bnbMaxTries = 100000;
+// Branch and bound looks for a selection whose value is in [target, target + tolerance], so no change is needed.
+// If no such selection is found, it falls back to the fallback selector.
+export function branchAndBoundSelection(
+  cells: readonly I8Cell[],
+  target: bigint,
+  inputFee: bigint,
+  tolerance: bigint = 0n,
+  fallback: CoinSelector = largestFirstSelection,
+): CoinSelection {
+  const candidates = worthyCandidates(cells, inputFee).sort((a, b) =>
+    a.value < b.value ? 1 : a.value > b.value ? -1 : 0,
+  );
+
+  // rest[i] is the total value of candidates from index i onward
+  const rest = [0n];
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    rest.unshift(rest[0] + candidates[i].value);
+  }
+
+  let tries = 0;
+  let best: Candidate[] | undefined;
+  let bestWaste = 0n;
+  const selected: Candidate[] = [];
+  const search = (i: number, value: bigint) => {
+    if (tries++ >= bnbMaxTries || (best && bestWaste === 0n)) {
+      return;
+    }
+    if (value > target + tolerance) {
+      return;
+    }
+    if (value >= target) {
+      if (!best || value - target < bestWaste) {
+        best = [...selected];
+        bestWaste = value - target;
+      }
+      return;
+    }
+    if (i === candidates.length || value + rest[i] < target) {
+      return;
+    }
+
+    // Explore first the branch including the i-th candidate, then the one excluding it
+    selected.push(candidates[i]);
+    search(i + 1, value + candidates[i].value);
+    selected.pop();
+    search(i + 1, value);
+  };
+  search(0, 0n);
+
+  if (!best) {
+    return fallback(cells, target, inputFee);
+  }
+
+  return selectionFrom(
+    cells,
+    (best as Candidate[]).map((c) => c.cell),
+    target,
+    inputFee,
+  );
+}
+
+// Random improve, as in CIP-2, see https://cips.cardano.org/cip/CIP-2
+export function randomImproveSelection(
+  cells: readonly I8Cell[],
+  target: bigint,
+  inputFee: bigint,
+  random: () => number = Math.random,
+): CoinSelection {
+  const candidates = shuffle(worthyCandidates(cells, inputFee), random);
+
+  // Random select phase
+  const selected: Candidate[] = [];
+  let value = 0n;
+  while (value < target && candidates.length > 0) {
+    const c = candidates.pop()!;
+    selected.push(c);
+    value += c.value;
+  }
+
+  // Improve phase, aim for a selected value close to twice target, without exceeding thrice target
+  const ideal = 2n * target;
+  const upperBound = 3n * target;
+  for (const c of value >= target ? candidates : []) {
+    const improved = value + c.value;
+    if (improved <= upperBound && abs(ideal - improved) < abs(ideal - value)) {
+      selected.push(c);
+      value = improved;
+    }
+  }
+
+  return selectionFrom(
+    cells,
+    selected.map((c) => c.cell),
+    target,
+    inputFee,
+  );
+}
+
+interface Candidate {
+  cell: I8Cell;
+  value: bigint;
+}
+
+function worthyCandidates(cells: readonly I8Cell[], inputFee: bigint) {
+  const candidates: Candidate[] = [];
+  for (const cell of cells) {
+    const value = BigInt(cell.cellOutput.capacity) - inputFee;
+    if (value > 0n) {
+      candidates.push({ cell, value });
+    }
+  }
+  return candidates;
+}
+
+function accumulate(
+  cells: readonly I8Cell[],
+  candidates: readonly Candidate[],
+  target: bigint,
+  inputFee: bigint,
+) {
+  const inputs: I8Cell[] = [];
+  let value = 0n;
+  for (const c of candidates) {
+    if (value >= target) {
+      break;
+    }
+    inputs.push(c.cell);
+    value += c.value;
+  }
+  return selectionFrom(cells, inputs, target, inputFee);
+}
+
+function selectionFrom(
+  cells: readonly I8Cell[],
+  inputs: I8Cell[],
+  target: bigint,
+  inputFee: bigint,
+): CoinSelection {
+  const selected = new Set(inputs);
+  let change = -target;
+  for (const c of inputs) {
+    change += BigInt(c.cellOutput.capacity) - inputFee;
+  }
+  return {
+    inputs,
+    leftovers: cells.filter((c) => !selected.has(c)),
+    change,
+  };
+}
+
+function abs(n: bigint) {
+  return n < 0n ? -n : n;
+}
@@ -0,0 +1,83 @@
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { witness, type I8Cell, type I8Script } from "./cell.js";
+import type { ConfigAdapter } from "./config.js";
+import { addCkbChange } from "./dao.js";
+import {
+  addCells,
+  addWitnessPlaceholder,
+  calculateTxFee,
+  txSize,
+} from "./transaction.js";
+import { largestFirstSelection, type CoinSelector } from "./coin_selection.js";
+
+export type CapacityProvider = (
+  shortfall: bigint,
+) => readonly I8Cell[] | Promise<readonly I8Cell[]>;
+
+export class InsufficientFunds extends Error {
+  readonly shortfall: bigint;
+
+  constructor(shortfall: bigint) {
+    super(errorInsufficientFunds);
+
+    this.shortfall = shortfall;
+
+    Object.setPrototypeOf(this, InsufficientFunds.prototype);
+  }
+}
+
+export const errorInsufficientFunds = "Not enough CKB to complete transaction";
+// Notes:
+// - Fee is computed on the transaction with the witness placeholder carried by accountLock, as locks like
+//   multisig and omnilock have placeholders larger than the default 65 bytes
+// - capacityProvider is called with the current shortfall until it returns no cells
+export async function completeTx(
+  tx: TransactionSkeletonType,
+  options: {
+    accountLock: I8Script;
+    feeRate: bigint;
+    capacityProvider: CapacityProvider;
+    config: ConfigAdapter;
+  },
+) {
+  const { accountLock, feeRate, capacityProvider, config } = options;
+  const txFeeOf = (t: TransactionSkeletonType) =>
+    calculateTxFee(
+      txSize(addWitnessPlaceholder(t, accountLock, accountLock[witness])),
+      feeRate,
+    );
+
+  for (;;) {
+    const {
+      tx: txWithChange,
+      txFee,
+      freeCkb,
+    } = addCkbChange(tx, accountLock, txFeeOf, config);
+    if (freeCkb >= 0n) {
+      return {
+        tx: txWithChange,
+        txFee,
+        change: BigInt(txWithChange.outputs.last()!.cellOutput.capacity),
+      };
+    }
+
+    const cells = await capacityProvider(-freeCkb);
+    if (cells.length === 0) {
+      throw new InsufficientFunds(-freeCkb);
+    }
+    tx = addCells(tx, "append", cells, []);
+  }
+}
+
+export function capacityProviderFrom(
+  capacities: readonly I8Cell[],
+  selector: CoinSelector = largestFirstSelection,
+  inputFee: bigint = 0n,
+): CapacityProvider {
+  let leftovers = capacities;
+  return (shortfall: bigint) => {
+    const selection = selector(leftovers, shortfall, inputFee);
+    leftovers = selection.leftovers;
+    return selection.inputs;
+  };
+}
@@ -11,6 +11,13 @@ import {
   cellDeps,
   i8ScriptPadding,
 } from "./cell.js";
+import {
+  checkedRpcEndpoints,
+  failoverFetch,
+  rpcEndpointsFrom,
+  type RpcEndpoints,
+} from "./failover.js";
+import { hex } from "./utils.js";
 import type {
   Cell,
   Hash,
@@ -20,25 +27,59 @@ import type {
   Hexadecimal,
   Script,
 } from "@ckb-lumos/base";
-import { ParamsFormatter, RPC, type CKBRPC } from "@ckb-lumos/rpc";
-export interface ChainConfig {
+import {
+  DEFAULT_RPC_TIMEOUT,
+  ParamsFormatter,
+  RPC,
+  type CKBRPC,
+} from "@ckb-lumos/rpc";
+// Rpc can be narrowed to the ExtendedRPC methods actually available, as in mockChainConfigFrom
+export interface ChainConfig<Rpc = ExtendedRPC> {
   chain: Chain;
   rpcUrl: string;
-  rpc: ExtendedRPC;
+  rpc: Rpc;
   config: ConfigAdapter;
 }
 
+// Notes:
+// - By default a single endpoint is used, multiple endpoints and their failover are opt-in
+// - With healthCheck, or with tipTolerance, endpoints are health checked first
+// - rpcUrl of the resulting ChainConfig is the preferred endpoint
 export async function chainConfigFrom(
   chain: Chain,
-  rpcUrl: string = defaultRpcUrl(chain),
+  rpcUrl: string | readonly string[] | RpcEndpoints = defaultRpcUrl(chain),
   neuterLumosConfig: boolean = false,
   ...customizations: ((
     chain: Chain,
     scriptConfigs: { [id: string]: ScriptConfigAdapter },
   ) => { [id: string]: ScriptConfigAdapter })[]
 ): Promise<ChainConfig> {
-  const rpc = extendedRPC(rpcUrl);
+  let endpoints = rpcEndpointsFrom(rpcUrl);
+  if (endpoints.healthCheck || endpoints.tipTolerance !== undefined) {
+    endpoints = await checkedRpcEndpoints(endpoints);
+  }
+
+  return chainConfigFromRPC(
+    chain,
+    extendedRPC(endpoints),
+    endpoints.urls[0],
+    neuterLumosConfig,
+    ...customizations,
+  );
+}
 
+export async function chainConfigFromRPC<
+  Rpc extends Pick<ExtendedRPC, "getBlockByNumber">,
+>(
+  chain: Chain,
+  rpc: Rpc,
+  rpcUrl: string,
+  neuterLumosConfig: boolean = false,
+  ...customizations: ((
+    chain: Chain,
+    scriptConfigs: { [id: string]: ScriptConfigAdapter },
+  ) => { [id: string]: ScriptConfigAdapter })[]
+): Promise<ChainConfig<Rpc>> {
   let config = configAdapterFrom(
     chain === "mainnet"
       ? predefined.LINA
@@ -99,108 +140,430 @@ export function defaultRpcUrl(chain: Chain) {
 }
 
 export interface ExtendedRPC extends CKBRPC {
+  getCellsPage: (
+    searchKey: CellSearchKey,
+    order: "asc" | "desc",
+    limit: bigint | HexNumber | number,
+    cursor?: HexString,
+  ) => Promise<CellsPage>;
+  iterateCellsByLock: (
+    lock: Script,
+    order?: "asc" | "desc",
+    filter?: CellFilter,
+    pageSize?: number,
+  ) => AsyncGenerator<Cell>;
   getCellsByLock: (
     lock: Script,
     order: "asc" | "desc",
-    limit: bigint | HexNumber | number,
+    limit: bigint | HexNumber | number | "all",
+    filter?: CellFilter,
+  ) => Promise<Cell[]>;
+  iterateCellsByType: (
+    type: Script,
+    order?: "asc" | "desc",
+    filter?: CellFilter,
+    pageSize?: number,
+  ) => AsyncGenerator<Cell>;
+  getCellsByType: (
+    type: Script,
+    order: "asc" | "desc",
+    limit: bigint | HexNumber | number | "all",
+    filter?: CellFilter,
+  ) => Promise<Cell[]>;
+  searchCells: (
+    searchKey: CellSearchKey,
+    order: "asc" | "desc",
+    limit: bigint | HexNumber | number | "all",
   ) => Promise<Cell[]>;
   getFeeRate: (number: bigint | HexNumber) => Promise<bigint>;
+  batch: <const Calls extends readonly BatchCall[]>(
+    calls: Calls,
+  ) => Promise<BatchResults<Calls>>;
 }
 
-export function extendedRPC(rpcUrl: string) {
-  const rpc = new RPC(rpcUrl) as ExtendedRPC;
-
-  rpc.addMethod({
-    name: "getCellsByLock",
-    method: "get_cells",
-    paramsFormatters: [
-      (lock: Script) => ({
-        script: {
-          code_hash: lock.codeHash,
-          hash_type: lock.hashType,
-          args: lock.args,
-        },
-        script_type: "lock",
-        script_search_mode: "exact",
-      }),
-      (order: "desc" | "asc") => order,
-      (limit: bigint | HexNumber | "max") => {
-        if (limit === "max") {
-          return "0xffffffff";
-        }
-        return ParamsFormatter.toNumber(limit);
-      },
-    ],
-    resultFormatters: (res: {
-      objects: {
-        output: {
-          capacity: Hexadecimal;
-          lock: {
-            code_hash: Hash;
-            hash_type: HashType;
-            args: HexString;
+// ExtendedRPC methods that can be batched: all the promise returning ones, except batch itself
+export type BatchMethod = {
+  [K in keyof ExtendedRPC]: ExtendedRPC[K] extends (
+    ...args: never[]
+  ) => Promise<unknown>
+    ? K
+    : never;
+}[Exclude<keyof ExtendedRPC, "batch">];
+
+// Signatures of a method, overloads included as lumos RPC has up to four of them
+type Signatures<F> = F extends {
+  (...args: infer A1): infer R1;
+  (...args: infer A2): infer R2;
+  (...args: infer A3): infer R3;
+  (...args: infer A4): infer R4;
+}
+  ?
+      | ((...args: A1) => R1)
+      | ((...args: A2) => R2)
+      | ((...args: A3) => R3)
+      | ((...args: A4) => R4)
+  : never;
+
+// A call of an ExtendedRPC method by name, for example ["getHeaderByNumber", "0x1"]
+export type BatchCall = {
+  [K in BatchMethod]: Signatures<ExtendedRPC[K]> extends infer S
+    ? S extends (...args: infer P) => unknown
+      ? readonly [K, ...P]
+      : never
+    : never;
+}[BatchMethod];
+
+// Result of a call, as returned by the overload matching its params
+export type BatchResult<C extends BatchCall> = C extends readonly [
+  infer K extends BatchMethod,
+  ...infer Params,
+]
+  ? Signatures<ExtendedRPC[K]> extends infer S
+    ? S extends (...args: infer P) => infer R
+      ? Params extends P
+        ? Awaited<R>
+        : never
+      : never
+    : never
+  : never;
+
+export type BatchResults<Calls extends readonly BatchCall[]> = {
+  -readonly [I in keyof Calls]: PromiseSettledResult<BatchResult<Calls[I]>>;
+};
+
+// Indexer secondary filter, ranges are [inclusive, exclusive)
+export interface CellFilter {
+  // Type script when searching by lock, lock script when searching by type
+  script?: Script;
+  scriptLenRange?: readonly [bigint, bigint];
+  outputData?: HexString;
+  outputDataFilterMode?: "prefix" | "exact" | "partial";
+  outputCapacityRange?: readonly [bigint, bigint];
+  blockRange?: readonly [bigint, bigint];
+}
+
+// Notes:
+// - With "exact" search mode script must match, as done by getCellsByLock and getCellsByType
+// - With "prefix" and "partial" search modes script args must respectively start with or contain the searched args
+export interface CellSearchKey {
+  script: Script;
+  scriptType: "lock" | "type";
+  scriptSearchMode?: "prefix" | "exact" | "partial";
+  filter?: CellFilter;
+}
+
+export interface CellsPage {
+  cells: Cell[];
+  lastCursor: HexString;
+}
+
+const defaultPageSize = 400;
+
+// Page through get_cells with cursors until there are no more cells
+export async function* iterateCells(
+  rpc: Pick<ExtendedRPC, "getCellsPage">,
+  searchKey: CellSearchKey,
+  order: "asc" | "desc" = "asc",
+  pageSize: number = defaultPageSize,
+) {
+  let cursor: HexString | undefined = undefined;
+  for (;;) {
+    const { cells, lastCursor }: CellsPage = await rpc.getCellsPage(
+      searchKey,
+      order,
+      pageSize,
+      cursor,
+    );
+    yield* cells;
+    if (cells.length < pageSize) {
+      return;
+    }
+    cursor = lastCursor;
+  }
+}
+
+// Collect up to limit cells, or all of them with "all"
+export async function takeCells(
+  cells: AsyncIterable<Cell>,
+  limit: bigint | HexNumber | number | "all",
+) {
+  const n = limit === "all" ? Infinity : Number(limit);
+  const result: Cell[] = [];
+  if (n <= 0) {
+    return result;
+  }
+  for await (const c of cells) {
+    result.push(c);
+    if (result.length >= n) {
+      break;
+    }
+  }
+  return result;
+}
+
+export function pageSizeFor(limit: bigint | HexNumber | number | "all") {
+  return limit === "all"
+    ? defaultPageSize
+    : Math.max(1, Math.min(Number(limit), defaultPageSize));
+}
+
+// Notes:
+// - With batch, calls are sent together as one JSON-RPC batch and each call settles on its own
+// - With autoBatch, all calls made before the next macrotask are coalesced into one JSON-RPC batch
+// - In both cases, params and results go through the same formatters as unbatched calls
+export function extendedRPC(
+  rpcUrl: string | readonly string[] | RpcEndpoints,
+  autoBatch: boolean = false,
+) {
+  const endpoints = rpcEndpointsFrom(rpcUrl);
+  const { fetch, explicitly } = batchingFetch(
+    autoBatch,
+    failoverFetch(endpoints),
+  );
+  const rpcConfig = { timeout: DEFAULT_RPC_TIMEOUT, fetch };
+  const rpc = new RPC(endpoints.urls[0], rpcConfig) as ExtendedRPC;
+
+  rpc.addMethod(
+    {
+      name: "getCellsPage",
+      method: "get_cells",
+      paramsFormatters: [
+        ({ script, scriptType, scriptSearchMode, filter }: CellSearchKey) => ({
+          script: scriptFormatter(script),
+          script_type: scriptType,
+          script_search_mode: scriptSearchMode ?? "exact",
+          filter: filter && {
+            script: filter.script && scriptFormatter(filter.script),
+            script_len_range: filter.scriptLenRange?.map(hex),
+            output_data: filter.outputData,
+            output_data_filter_mode: filter.outputDataFilterMode,
+            output_capacity_range: filter.outputCapacityRange?.map(hex),
+            block_range: filter.blockRange?.map(hex),
+          },
+        }),
+        (order: "desc" | "asc") => order,
+        (limit: bigint | HexNumber | number) =>
+          ParamsFormatter.toNumber(BigInt(limit)),
+        (cursor?: HexString) => cursor ?? null,
+      ],
+      resultFormatters: (res: {
+        objects: {
+          output: {
+            capacity: Hexadecimal;
+            lock: {
+              code_hash: Hash;
+              hash_type: HashType;
+              args: HexString;
+            };
+            type?: {
+              code_hash: Hash;
+              hash_type: HashType;
+              args: HexString;
+            };
           };
-          type?: {
-            code_hash: Hash;
-            hash_type: HashType;
-            args: HexString;
+          output_data: HexString;
+          block_number: HexNumber;
+          out_point: {
+            tx_hash: Hash;
+            index: HexNumber;
           };
-        };
-        output_data: HexString;
-        block_number: HexNumber;
-        out_point: {
-          tx_hash: Hash;
-          index: HexNumber;
-        };
-        tx_index: HexNumber;
-      }[];
-    }): Cell[] =>
-      res.objects.map(
-        ({
-          output: { capacity, lock, type },
-          block_number,
-          out_point,
-          output_data,
-          tx_index,
-        }) => ({
-          cellOutput: {
-            capacity: capacity,
-            lock: {
-              codeHash: lock.code_hash,
-              hashType: lock.hash_type,
-              args: lock.args,
+          tx_index: HexNumber;
+        }[];
+        last_cursor: HexString;
+      }): CellsPage => ({
+        cells: res.objects.map(
+          ({
+            output: { capacity, lock, type },
+            block_number,
+            out_point,
+            output_data,
+            tx_index,
+          }) => ({
+            cellOutput: {
+              capacity: capacity,
+              lock: {
+                codeHash: lock.code_hash,
+                hashType: lock.hash_type,
+                args: lock.args,
+              },
+              type: type
+                ? {
+                    codeHash: type.code_hash,
+                    hashType: type.hash_type,
+                    args: type.args,
+                  }
+                : undefined,
             },
-            type: type
-              ? {
-                  codeHash: type.code_hash,
-                  hashType: type.hash_type,
-                  args: type.args,
-                }
-              : undefined,
-          },
-          data: output_data ?? "0x",
-          outPoint: { index: out_point.index, txHash: out_point.tx_hash },
-          blockNumber: block_number,
-          txIndex: tx_index,
-        }),
-      ),
-  });
+            data: output_data ?? "0x",
+            outPoint: { index: out_point.index, txHash: out_point.tx_hash },
+            blockNumber: block_number,
+            txIndex: tx_index,
+          }),
+        ),
+        lastCursor: res.last_cursor,
+      }),
+    },
+    rpcConfig,
+  );
 
-  rpc.addMethod({
-    name: "getFeeRate",
-    method: "get_fee_rate_statistics",
-    paramsFormatters: [
-      // Target as default ten minutes median fee-rate
-      (target: bigint | string) => ParamsFormatter.toNumber(target),
-    ],
-    resultFormatters: (res?: { median?: string }) => {
-      return !res || !res.median ? 1000n : BigInt(res.median);
+  rpc.iterateCellsByLock = (lock, order, filter, pageSize) =>
+    iterateCells(
+      rpc,
+      { script: lock, scriptType: "lock", filter },
+      order,
+      pageSize,
+    );
+
+  rpc.getCellsByLock = (lock, order, limit, filter) =>
+    takeCells(
+      rpc.iterateCellsByLock(lock, order, filter, pageSizeFor(limit)),
+      limit,
+    );
+
+  rpc.iterateCellsByType = (type, order, filter, pageSize) =>
+    iterateCells(
+      rpc,
+      { script: type, scriptType: "type", filter },
+      order,
+      pageSize,
+    );
+
+  rpc.getCellsByType = (type, order, limit, filter) =>
+    takeCells(
+      rpc.iterateCellsByType(type, order, filter, pageSizeFor(limit)),
+      limit,
+    );
+
+  rpc.searchCells = (searchKey, order, limit) =>
+    takeCells(iterateCells(rpc, searchKey, order, pageSizeFor(limit)), limit);
+
+  rpc.addMethod(
+    {
+      name: "getFeeRate",
+      method: "get_fee_rate_statistics",
+      paramsFormatters: [
+        // Target as default ten minutes median fee-rate
+        (target: bigint | string) => ParamsFormatter.toNumber(target),
+      ],
+      resultFormatters: (res?: { median?: string }) => {
+        return !res || !res.median ? 1000n : BigInt(res.median);
+      },
     },
-  });
+    rpcConfig,
+  );
+
+  rpc.batch = async <const Calls extends readonly BatchCall[]>(calls: Calls) =>
+    // Results follow calls order, so they match BatchResults of calls
+    Promise.allSettled(
+      explicitly(() =>
+        calls.map(([name, ...params]) => Reflect.apply(rpc[name], rpc, params)),
+      ),
+    ) as Promise<BatchResults<Calls>>;
 
   return rpc;
 }
 
+interface JsonRpcRequest {
+  id: number;
+  jsonrpc: string;
+  method: string;
+  params: unknown[];
+}
+
+interface JsonRpcResponse {
+  id: number;
+  jsonrpc: string;
+  result?: unknown;
+  error?: unknown;
+}
+
+// Notes:
+// - Single JSON-RPC requests are queued and sent as one batch, then each response is handed back to its own call
+// - Ids are made unique within the batch and then restored, as lumos picks them at random
+export const errorBatchedCallAborted = "Batched RPC call aborted";
+export const errorMissingBatchResponse = "Missing response in JSON-RPC batch";
+function batchingFetch(
+  autoBatch: boolean,
+  send: (init: RequestInit) => Promise<Response>,
+) {
+  let explicitDepth = 0;
+  let queue: {
+    request: JsonRpcRequest;
+    resolve: (r: JsonRpcResponse) => void;
+    reject: (e: unknown) => void;
+  }[] = [];
+
+  const flush = async () => {
+    const entries = queue;
+    queue = [];
+    try {
+      const res = await send({
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(
+          entries.map(({ request }, id) => ({ ...request, id })),
+        ),
+      });
+      const responses: JsonRpcResponse | JsonRpcResponse[] = await res.json();
+      const id2Response = new Map(
+        Array.isArray(responses) ? responses.map((r) => [r.id, r]) : [],
+      );
+      entries.forEach(({ request, resolve }, id) => {
+        // A non array response is an error about the whole batch
+        const response = Array.isArray(responses)
+          ? (id2Response.get(id) ?? {
+              jsonrpc: "2.0",
+              id,
+              error: errorMissingBatchResponse,
+            })
+          : responses;
+        resolve({ ...response, id: request.id });
+      });
+    } catch (e) {
+      entries.forEach(({ reject }) => reject(e));
+    }
+  };
+
+  // Endpoint url is chosen by send
+  const batchingFetch = async (_: string, init: RequestInit) => {
+    if (!autoBatch && explicitDepth === 0) {
+      return send(init);
+    }
+
+    const request: JsonRpcRequest = JSON.parse(String(init.body));
+    const response = await new Promise<JsonRpcResponse>((resolve, reject) => {
+      if (queue.length === 0) {
+        setTimeout(flush, 0);
+      }
+      queue.push({ request, resolve, reject });
+      init.signal?.addEventListener("abort", () =>
+        reject(Error(errorBatchedCallAborted)),
+      );
+    });
+    return { json: async () => response } as Response;
+  };
+
+  // Calls started synchronously within f are batched even without autoBatch
+  const explicitly = <T>(f: () => T) => {
+    explicitDepth++;
+    try {
+      return f();
+    } finally {
+      explicitDepth--;
+    }
+  };
+
+  return { fetch: batchingFetch as typeof fetch, explicitly };
+}
+
+function scriptFormatter(s: Script) {
+  return {
+    code_hash: s.codeHash,
+    hash_type: s.hashType,
+    args: s.args,
+  };
+}
+
 export class ScriptNameNotFound extends Error {
   readonly missingScriptName: string;
 
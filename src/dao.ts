@@ -10,6 +10,7 @@ import { hexify } from "@ckb-lumos/codec/lib/bytes.js";
 import {
   generateHeaderEpoch,
   parseAbsoluteEpochSince,
+  parseEpoch,
 } from "@ckb-lumos/base/lib/since.js";
 import type { EpochSinceValue } from "@ckb-lumos/base/lib/since.js";
 import {
@@ -24,6 +25,7 @@ import {
   since,
   witness,
 } from "./cell.js";
+import type { HeaderProvider } from "./header_provider.js";
 import { addCells, addHeaderDeps } from "./transaction.js";
 import { hex, scriptEq } from "./utils.js";
 import { Uint64 } from "./codec.js";
@@ -89,6 +91,39 @@ export function daoSifter(
   return { deposits, withdrawalRequests, notDaos };
 }
 
+// Notes:
+// - Same as daoSifter, but headers are fetched from headerProvider
+// - Withdrawal requests need both their own header and the header of their original deposit
+export async function asyncDaoSifter(
+  inputs: readonly Cell[],
+  accountLockExpander: (c: Cell) => I8Script | undefined,
+  headerProvider: HeaderProvider,
+  config: ConfigAdapter,
+) {
+  const blockNumbers = new Set<string>();
+  for (const c of inputs) {
+    if (!accountLockExpander(c) || !isDao(c, config)) {
+      continue;
+    }
+    if (!c.blockNumber) {
+      throw Error(errorUndefinedBlockNumber);
+    }
+    blockNumbers.add(hex(BigInt(c.blockNumber)));
+    if (c.data !== DEPOSIT_DATA) {
+      blockNumbers.add(hex(Uint64.unpack(c.data)));
+    }
+  }
+
+  const headers = await headerProvider.prefetch([...blockNumbers]);
+  const number2Header = new Map(headers.map((h) => [hex(BigInt(h.number)), h]));
+  return daoSifter(
+    inputs,
+    accountLockExpander,
+    (blockNumber) => number2Header.get(hex(BigInt(blockNumber)))!,
+    config,
+  );
+}
+
 export const DEPOSIT_DATA = "0x0000000000000000";
 
 export function isDao(c: Cell, config: ConfigAdapter) {
@@ -199,20 +234,94 @@ export function withdrawalAmountEstimation(
   return calculateMaximumWithdraw(deposit, depositDao, withdrawalRequestDao);
 }
 
+const daoCycleEpochs = 180;
+
+export interface DaoDepositStatus {
+  deposit: I8Cell;
+  // Compensation accrued from deposit up to tip header, in shannons
+  accruedCompensation: bigint;
+  // Zero based index of the current 180 epochs cycle since deposit
+  cycle: number;
+  // Elapsed fraction of the current cycle, in [0, 1)
+  cycleProgress: number;
+  // Epoch at which the current cycle ends, which is also the unlock epoch of a withdrawal requested now
+  cycleEnd: EpochSinceValue;
+}
+
+// Deposit must come from daoSifter, so that its deposit header is available
+export function daoDepositStatus(
+  deposit: I8Cell,
+  tipHeader: I8Header,
+): DaoDepositStatus {
+  const depositEpoch = parseEpoch(
+    deposit.cellOutput.type![headerDeps][0]!.epoch,
+  );
+  const tipEpoch = parseEpoch(tipHeader.epoch);
+  const elapsedEpochs = epochValue(tipEpoch) - epochValue(depositEpoch);
+  const cycle = Math.max(0, Math.floor(elapsedEpochs / daoCycleEpochs));
+
+  return {
+    deposit,
+    accruedCompensation:
+      withdrawalAmountEstimation(deposit, tipHeader.dao) -
+      BigInt(deposit.cellOutput.capacity),
+    cycle,
+    cycleProgress: Math.max(0, elapsedEpochs / daoCycleEpochs - cycle),
+    cycleEnd: withdrawalEpochEstimation(deposit, tipEpoch),
+  };
+}
+
+export interface DaoWithdrawalPlan {
+  // Latest epoch for the withdrawal request to be committed, keeping a safety margin before unlockEpoch
+  requestBy: EpochSinceValue;
+  unlockEpoch: EpochSinceValue;
+}
+
+// Notes:
+// - A withdrawal request committed anywhere within a cycle unlocks at the end of that cycle
+// - Requesting late in the cycle keeps accruing compensation without delaying the unlock
+// - If the current cycle ends within marginEpochs, the plan targets the end of the next cycle instead
+export function daoWithdrawalPlan(
+  deposit: I8Cell,
+  tipHeader: I8Header,
+  marginEpochs: number = 1,
+): DaoWithdrawalPlan {
+  const tipEpoch = parseEpoch(tipHeader.epoch);
+  let unlockEpoch = withdrawalEpochEstimation(deposit, tipEpoch);
+  if (epochValue(unlockEpoch) - epochValue(tipEpoch) < marginEpochs) {
+    unlockEpoch = {
+      ...unlockEpoch,
+      number: unlockEpoch.number + daoCycleEpochs,
+    };
+  }
+
+  return {
+    requestBy: { ...unlockEpoch, number: unlockEpoch.number - marginEpochs },
+    unlockEpoch,
+  };
+}
+
+function epochValue({ number, index, length }: EpochSinceValue) {
+  return number + (length > 0 ? index / length : 0);
+}
+
+// Withdrawal request must come from daoSifter, so that withdrawal and deposit headers are available
+export function maxWithdrawable(withdrawalRequest: I8Cell) {
+  const [withdrawalHeader, depositHeader] =
+    withdrawalRequest.cellOutput.type![headerDeps];
+  return calculateMaximumWithdraw(
+    withdrawalRequest,
+    depositHeader.dao,
+    withdrawalHeader.dao,
+  );
+}
+
 export function ckbDelta(tx: TransactionSkeletonType, config: ConfigAdapter) {
   let ckbDelta = 0n;
   for (const c of tx.inputs) {
     //Second Withdrawal step from NervosDAO
     if (isDaoWithdrawalRequest(c, config)) {
-      const withdrawalRequest = c as I8Cell;
-      const [withdrawalHeader, depositHeader] =
-        withdrawalRequest.cellOutput.type![headerDeps];
-      const maxWithdrawable = calculateMaximumWithdraw(
-        c,
-        depositHeader.dao,
-        withdrawalHeader.dao,
-      );
-      ckbDelta += maxWithdrawable;
+      ckbDelta += maxWithdrawable(c as I8Cell);
     } else {
       ckbDelta += BigInt(c.cellOutput.capacity);
     }
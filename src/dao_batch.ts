@@ -0,0 +1,127 @@
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { TransactionSkeleton } from "@ckb-lumos/helpers";
+import { witness, type I8Cell, type I8Script } from "./cell.js";
+import { completeTx, type CapacityProvider } from "./complete.js";
+import type { ConfigAdapter } from "./config.js";
+import {
+  addCkbChange,
+  daoDeposit,
+  daoRequestWithdrawalFrom,
+  daoWithdrawFrom,
+  isDao,
+} from "./dao.js";
+import { addWitnessPlaceholder, txSize } from "./transaction.js";
+import { logSplit } from "./utils.js";
+
+export interface DaoBatchOptions {
+  accountLock: I8Script;
+  feeRate: bigint;
+  capacityProvider: CapacityProvider;
+  config: ConfigAdapter;
+  // Maximum size of each transaction, by default the tx pool limit
+  maxTxSize?: number;
+  // Bytes kept free for the inputs added while funding each transaction
+  sizeReserve?: number;
+}
+
+// DAO script rejects transactions with DAO outputs and more than 64 outputs
+export const DAO_OUTPUTS_LIMIT = 64;
+
+export async function planDaoDeposits(
+  capacities: readonly bigint[],
+  options: DaoBatchOptions,
+) {
+  const { accountLock, config } = options;
+  return planDaoBatches(
+    capacities,
+    (batch) => daoDeposit(TransactionSkeleton(), batch, accountLock, config),
+    options,
+  );
+}
+
+export async function planDaoWithdrawalRequests(
+  deposits: readonly I8Cell[],
+  options: DaoBatchOptions,
+) {
+  const { accountLock } = options;
+  return planDaoBatches(
+    deposits,
+    (batch) =>
+      daoRequestWithdrawalFrom(TransactionSkeleton(), batch, accountLock),
+    options,
+  );
+}
+
+export async function planDaoWithdrawals(
+  withdrawalRequests: readonly I8Cell[],
+  options: DaoBatchOptions,
+) {
+  return planDaoBatches(
+    withdrawalRequests,
+    (batch) => daoWithdrawFrom(TransactionSkeleton(), batch),
+    options,
+  );
+}
+
+// Notes:
+// - Items are packed greedily, trying the logSplit pieces of the remaining items from the largest one
+// - Limits are checked on the transaction with its change and witness placeholders, but before funding
+// - Each transaction is then funded and gets its own change with completeTx, so they are independent
+export const errorDaoBatchItemTooLarge =
+  "A single DAO operation exceeds transaction limits";
+async function planDaoBatches<T>(
+  items: readonly T[],
+  build: (batch: T[]) => TransactionSkeletonType,
+  options: DaoBatchOptions,
+) {
+  const {
+    accountLock,
+    config,
+    maxTxSize = 512_000,
+    sizeReserve = 20_000,
+  } = options;
+
+  const isWithinLimits = (tx: TransactionSkeletonType) => {
+    const { tx: txWithChange } = addCkbChange(
+      tx,
+      accountLock,
+      () => 0n,
+      config,
+    );
+    const hasDaoOutputs = txWithChange.outputs.some((c) => isDao(c, config));
+    if (hasDaoOutputs && txWithChange.outputs.size > DAO_OUTPUTS_LIMIT) {
+      return false;
+    }
+    const size = txSize(
+      addWitnessPlaceholder(txWithChange, accountLock, accountLock[witness]),
+    );
+    return size + sizeReserve <= maxTxSize;
+  };
+
+  const batches: T[][] = [];
+  let rest = items.map((_, i) => i);
+  while (rest.length > 0) {
+    // Pieces go from the end towards the start, so prepending keeps the original order
+    let batch: number[] = [];
+    const skipped: number[][] = [];
+    for (const piece of logSplit(rest)) {
+      const candidate = [...piece, ...batch];
+      if (isWithinLimits(build(candidate.map((i) => items[i])))) {
+        batch = candidate;
+      } else {
+        skipped.unshift(piece);
+      }
+    }
+    if (batch.length === 0) {
+      throw Error(errorDaoBatchItemTooLarge);
+    }
+    batches.push(batch.map((i) => items[i]));
+    rest = skipped.flat();
+  }
+
+  const completed = [];
+  for (const batch of batches) {
+    completed.push(await completeTx(build(batch), options));
+  }
+  return completed;
+}
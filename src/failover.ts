@@ -0,0 +1,149 @@
+import type { Hash } from "@ckb-lumos/base";
+import { RPC } from "@ckb-lumos/rpc";
+import fetch from "cross-fetch";
+import { sleep } from "./utils.js";
+
+export interface RpcEndpoints {
+  urls: readonly string[];
+  // Retries after every endpoint failed, each one waiting twice as long as the previous one, none by default
+  retries?: number;
+  // Milliseconds before the first retry
+  backoff?: number;
+  // If true, endpoints are health checked by chainConfigFrom and healthy ones are put first
+  healthCheck?: boolean;
+  // When defined, all healthy endpoints must share genesis hash and have tips within tipTolerance blocks, it implies healthCheck
+  tipTolerance?: bigint;
+}
+
+export const errorNoRpcEndpoints = "No RPC endpoints";
+export function rpcEndpointsFrom(
+  x: string | readonly string[] | RpcEndpoints,
+): RpcEndpoints {
+  const endpoints =
+    typeof x === "string" ? { urls: [x] } : "urls" in x ? x : { urls: x };
+  if (endpoints.urls.length === 0) {
+    throw Error(errorNoRpcEndpoints);
+  }
+  return endpoints;
+}
+
+// Replaying these calls on another endpoint may have effects twice, so they are never failed over
+const nonIdempotentMethods = new Set([
+  "send_transaction",
+  "send_alert",
+  "submit_block",
+]);
+
+// Notes:
+// - Requests go to the current endpoint, on network errors or HTTP errors the next endpoint becomes current
+// - Once all endpoints failed, the whole round is retried with exponential backoff, only if endpoints.retries is set
+// - Requests containing non-idempotent calls are sent once to the current endpoint
+// - Requests go through cross-fetch like in lumos, so no global fetch is needed
+export const errorAllEndpointsFailed = "All RPC endpoints failed";
+export function failoverFetch(endpoints: RpcEndpoints) {
+  const { urls, retries = 0, backoff = 500 } = endpoints;
+  let current = 0;
+
+  return async (init: RequestInit) => {
+    if (!isIdempotent(init)) {
+      return fetch(urls[current], init);
+    }
+
+    let lastError: unknown = Error(errorAllEndpointsFailed);
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        await sleep(backoff * 2 ** (attempt - 1));
+      }
+      for (let i = 0; i < urls.length; i++) {
+        if (init.signal?.aborted) {
+          throw lastError;
+        }
+        try {
+          const res = await fetch(urls[current], init);
+          if (res.ok) {
+            return res;
+          }
+          lastError = Error(
+            `${errorAllEndpointsFailed}, last one answered with HTTP ${res.status}`,
+          );
+        } catch (e) {
+          lastError = e;
+        }
+        current = (current + 1) % urls.length;
+      }
+    }
+    throw lastError;
+  };
+}
+
+function isIdempotent(init: RequestInit) {
+  const payload: { method: string } | { method: string }[] = JSON.parse(
+    String(init.body),
+  );
+  return (Array.isArray(payload) ? payload : [payload]).every(
+    ({ method }) => !nonIdempotentMethods.has(method),
+  );
+}
+
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean;
+  genesisHash?: Hash;
+  tipNumber?: bigint;
+}
+
+export async function checkRpcEndpoints(
+  urls: readonly string[],
+): Promise<EndpointHealth[]> {
+  return Promise.all(
+    urls.map(async (url) => {
+      const rpc = new RPC(url);
+      try {
+        const [genesisHash, tipNumber] = await Promise.all([
+          rpc.getBlockHash("0x0"),
+          rpc.getTipBlockNumber(),
+        ]);
+        return {
+          url,
+          healthy: true,
+          genesisHash,
+          tipNumber: BigInt(tipNumber),
+        };
+      } catch {
+        return { url, healthy: false };
+      }
+    }),
+  );
+}
+
+// Health check endpoints, then put healthy endpoints first
+export const errorNoHealthyEndpoint = "No healthy RPC endpoint";
+export const errorInconsistentEndpoints =
+  "RPC endpoints disagree on genesis hash or tip";
+export async function checkedRpcEndpoints(
+  endpoints: RpcEndpoints,
+): Promise<RpcEndpoints> {
+  const healths = await checkRpcEndpoints(endpoints.urls);
+  const healthy = healths.filter((h) => h.healthy);
+  if (healthy.length === 0) {
+    throw Error(errorNoHealthyEndpoint);
+  }
+
+  const { tipTolerance } = endpoints;
+  if (tipTolerance !== undefined) {
+    const tips = healthy.map((h) => h.tipNumber!);
+    const minTip = tips.reduce((a, b) => (a < b ? a : b));
+    const maxTip = tips.reduce((a, b) => (a > b ? a : b));
+    if (
+      healthy.some((h) => h.genesisHash !== healthy[0].genesisHash) ||
+      maxTip - minTip > tipTolerance
+    ) {
+      throw Error(errorInconsistentEndpoints);
+    }
+  }
+
+  return {
+    ...endpoints,
+    urls: [...healthy, ...healths.filter((h) => !h.healthy)].map((h) => h.url),
+  };
+}
@@ -0,0 +1,130 @@
+import { Transaction as TransactionCodec } from "@ckb-lumos/base/lib/blockchain.js";
+import type { ExtendedRPC } from "./config.js";
+import { hex } from "./utils.js";
+
+export type FeePriority = "low" | "median" | "high";
+
+export interface FeeRateOptions {
+  priority?: FeePriority;
+  // Number of blocks sampled before the tip, 20 by default, each block costs two RPC calls and a full block download
+  blockWindow?: number;
+  // Percentile of the sampled fee rates for each priority
+  percentiles?: Readonly<Record<FeePriority, number>>;
+  // Maximum fee rate the caller is willing to pay, in shannons per KB
+  ceiling?: bigint;
+  // Number of blocks fetched concurrently, each block costs two RPC calls
+  batchSize?: number;
+}
+
+export interface FeeRateEstimate {
+  // Fee rate in shannons per KB, as expected by calculateTxFee
+  feeRate: bigint;
+  minFeeRate: bigint;
+  // Raw get_fee_rate_statistics result, if the node has any
+  statistics: { mean: bigint; median: bigint } | undefined;
+  // Average fee rate of each sampled block, sorted in increasing order
+  samples: bigint[];
+}
+
+type FeeRateRPC = Pick<
+  ExtendedRPC,
+  | "getTipBlockNumber"
+  | "txPoolInfo"
+  | "getFeeRateStatistics"
+  | "getBlockByNumber"
+  | "getBlockEconomicState"
+>;
+
+const defaultPercentiles = Object.freeze({ low: 20, median: 50, high: 80 });
+
+// Notes:
+// - Each sample is the average fee rate of a whole block: its fees over the size of its non-cellbase transactions
+// - The node does not expose the fees of committed transactions, so percentiles are over block averages, not over
+//   single transaction fee rates: a block mixing low and high fee rate transactions contributes only its average
+// - Blocks are fetched batchSize at a time, so that public endpoints are not flooded with requests
+// - Block fees are known only once the block is finalized, so the most recent blocks are not sampled
+// - Without samples, the fee rate falls back to the get_fee_rate_statistics median
+// - The result is at least tx_pool_info.min_fee_rate, as the pool would reject lower rates
+export const errorFeeCeilingBelowMinimum =
+  "Fee rate ceiling is below the tx pool minimum fee rate";
+export async function estimateFeeRate(
+  rpc: FeeRateRPC,
+  options: FeeRateOptions = {},
+): Promise<FeeRateEstimate> {
+  const {
+    priority = "median",
+    blockWindow = 20,
+    percentiles = defaultPercentiles,
+    ceiling,
+    batchSize = 10,
+  } = options;
+
+  const [tipNumber, poolInfo, rawStatistics] = await Promise.all([
+    rpc.getTipBlockNumber(),
+    rpc.txPoolInfo(),
+    rpc.getFeeRateStatistics(),
+  ]);
+  const minFeeRate = BigInt(poolInfo.minFeeRate);
+  if (ceiling !== undefined && ceiling < minFeeRate) {
+    throw Error(errorFeeCeilingBelowMinimum);
+  }
+
+  const statistics = rawStatistics
+    ? { mean: BigInt(rawStatistics.mean), median: BigInt(rawStatistics.median) }
+    : undefined;
+
+  const tip = BigInt(tipNumber);
+  const numbers: bigint[] = [];
+  for (let n = tip; n > 0n && n > tip - BigInt(blockWindow); n--) {
+    numbers.push(n);
+  }
+  const samples: bigint[] = [];
+  for (let i = 0; i < numbers.length; i += batchSize) {
+    const batch = numbers.slice(i, i + batchSize);
+    for (const r of await Promise.all(batch.map((n) => blockFeeRate(rpc, n)))) {
+      if (r !== undefined) {
+        samples.push(r);
+      }
+    }
+  }
+  samples.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  let feeRate =
+    samples.length > 0
+      ? samples[
+          Math.min(
+            samples.length - 1,
+            Math.floor((samples.length * percentiles[priority]) / 100),
+          )
+        ]
+      : (statistics?.median ?? minFeeRate);
+  if (feeRate < minFeeRate) {
+    feeRate = minFeeRate;
+  }
+  if (ceiling !== undefined && feeRate > ceiling) {
+    feeRate = ceiling;
+  }
+
+  return { feeRate, minFeeRate, statistics, samples };
+}
+
+async function blockFeeRate(rpc: FeeRateRPC, number: bigint) {
+  const block = await rpc.getBlockByNumber(hex(number));
+  // The first transaction is the cellbase, which pays no fee
+  const transactions = block.transactions.slice(1);
+  if (transactions.length === 0) {
+    return undefined;
+  }
+
+  const economicState = await rpc.getBlockEconomicState(block.header.hash);
+  if (!economicState) {
+    return undefined;
+  }
+
+  // 4 is serialized offset bytesize, as in txSize
+  const size = transactions.reduce(
+    (acc, tx) => acc + BigInt(TransactionCodec.pack(tx).byteLength + 4),
+    0n,
+  );
+  return (BigInt(economicState.txsFee) * 1000n) / size;
+}
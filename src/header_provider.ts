@@ -0,0 +1,101 @@
+import type { Hash, Header, HexNumber } from "@ckb-lumos/base";
+import { I8Header } from "./cell.js";
+import type { ExtendedRPC } from "./config.js";
+import { hex } from "./utils.js";
+
+export const errorHeaderNotFound = "Header not found";
+// Notes:
+// - Headers are cached in a least recently used cache bounded by capacity headers
+// - Concurrent requests of the same header share the same RPC call
+export class HeaderProvider {
+  readonly rpc: Pick<ExtendedRPC, "getHeader" | "getHeaderByNumber">;
+  readonly capacity: number;
+
+  // Map keeps insertion order, so the first entry is the least recently used
+  private readonly hash2Header = new Map<Hash, I8Header>();
+  private readonly number2Hash = new Map<HexNumber, Hash>();
+  private readonly pending = new Map<string, Promise<I8Header>>();
+
+  constructor(
+    rpc: Pick<ExtendedRPC, "getHeader" | "getHeaderByNumber">,
+    capacity: number = 1024,
+  ) {
+    this.rpc = rpc;
+    this.capacity = capacity;
+  }
+
+  // Cached header, without fetching it
+  peek(key: { number: bigint | HexNumber } | { hash: Hash }) {
+    const hash =
+      "hash" in key ? key.hash : this.number2Hash.get(hex(BigInt(key.number)));
+    return hash === undefined ? undefined : this.hash2Header.get(hash);
+  }
+
+  async getHeaderByNumber(number: bigint | HexNumber) {
+    const n = hex(BigInt(number));
+    const cached = this.touch(this.number2Hash.get(n));
+    return (
+      cached ?? this.dedup("number-" + n, () => this.rpc.getHeaderByNumber(n))
+    );
+  }
+
+  async getHeader(hash: Hash) {
+    return (
+      this.touch(hash) ??
+      this.dedup("hash-" + hash, () => this.rpc.getHeader(hash))
+    );
+  }
+
+  // Fetch headers in batches of at most batchSize concurrent requests
+  async prefetch(
+    numbers: readonly (bigint | HexNumber)[],
+    batchSize: number = 32,
+  ) {
+    const headers: I8Header[] = [];
+    for (let i = 0; i < numbers.length; i += batchSize) {
+      const batch = numbers.slice(i, i + batchSize);
+      headers.push(
+        ...(await Promise.all(batch.map((n) => this.getHeaderByNumber(n)))),
+      );
+    }
+    return headers;
+  }
+
+  private touch(hash: Hash | undefined) {
+    const h = hash === undefined ? undefined : this.hash2Header.get(hash);
+    if (h !== undefined) {
+      this.hash2Header.delete(h.hash);
+      this.hash2Header.set(h.hash, h);
+    }
+    return h;
+  }
+
+  private dedup(key: string, fetch: () => Promise<Header | null | undefined>) {
+    let p = this.pending.get(key);
+    if (p === undefined) {
+      p = fetch()
+        .then((header) => {
+          if (!header) {
+            throw Error(errorHeaderNotFound);
+          }
+          return this.store(I8Header.from(header));
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, p);
+    }
+    return p;
+  }
+
+  private store(h: I8Header) {
+    this.hash2Header.delete(h.hash);
+    this.hash2Header.set(h.hash, h);
+    this.number2Hash.set(hex(BigInt(h.number)), h.hash);
+
+    while (this.hash2Header.size > this.capacity) {
+      const [, evicted] = this.hash2Header.entries().next().value!;
+      this.hash2Header.delete(evicted.hash);
+      this.number2Hash.delete(hex(BigInt(evicted.number)));
+    }
+    return h;
+  }
+}
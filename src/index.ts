@@ -1,6 +1,26 @@
+export * from "./acp.js";
+export * from "./balance.js";
 export * from "./cell.js";
 export * from "./codec.js";
+export * from "./coin_selection.js";
+export * from "./complete.js";
 export * from "./config.js";
 export * from "./dao.js";
+export * from "./dao_batch.js";
+export * from "./failover.js";
+export * from "./fee.js";
+export * from "./header_provider.js";
+export * from "./mock_chain.js";
+export * from "./multisig.js";
+export * from "./omnilock.js";
+export * from "./rbf.js";
+export * from "./secp256k1.js";
+export * from "./serialize.js";
+export * from "./signer.js";
+export * from "./signing.js";
+export * from "./submit.js";
 export * from "./transaction.js";
+export * from "./type_id.js";
+export * from "./udt.js";
 export * from "./utils.js";
+export * from "./validate.js";
@@ -0,0 +1,596 @@
+import type {
+  Cell,
+  Hash,
+  HexNumber,
+  HexString,
+  OutPoint,
+  Script,
+  Transaction,
+  TransactionWithStatus,
+} from "@ckb-lumos/base";
+import { ckbHash } from "@ckb-lumos/base/lib/utils.js";
+import {
+  BaseHeader,
+  Block as BlockCodec,
+  Header as HeaderCodec,
+  RawTransaction,
+  Transaction as TransactionCodec,
+} from "@ckb-lumos/base/lib/blockchain.js";
+import { generateHeaderEpoch } from "@ckb-lumos/base/lib/since.js";
+import { minimalCellCapacityCompatible } from "@ckb-lumos/helpers";
+import { bytes } from "@ckb-lumos/codec";
+import { hexify } from "@ckb-lumos/codec/lib/bytes.js";
+import { CKBComponents } from "@ckb-lumos/rpc/lib/types/api.js";
+import { I8Header } from "./cell.js";
+import {
+  chainConfigFromRPC,
+  iterateCells,
+  pageSizeFor,
+  takeCells,
+  type BatchCall,
+  type BatchMethod,
+  type BatchResults,
+  type CellFilter,
+  type CellSearchKey,
+  type Chain,
+  type ExtendedRPC,
+  type ScriptConfigAdapter,
+} from "./config.js";
+import { CKB, hex, scriptEq } from "./utils.js";
+import { Uint64 } from "./codec.js";
+
+type BlockView = CKBComponents.BlockView;
+type TransactionView = CKBComponents.TransactionView;
+
+export interface MockChainOptions {
+  genesisCells?: readonly Pick<Cell, "cellOutput" | "data">[];
+  epochLength?: number;
+  // Milliseconds between two consecutive blocks
+  blockInterval?: number;
+  genesisTimestamp?: number;
+  feeRate?: bigint;
+  // If true, each sent transaction is immediately committed in a new block
+  autoMine?: boolean;
+}
+
+// NervosDAO issuance constants, see https://github.com/nervosnetwork/rfcs/blob/master/rfcs/0023-dao-deposit-withdraw/0023-dao-deposit-withdraw.md
+const genesisIssuance = 33_600_000_000n * CKB;
+const primaryEpochIssuance = 191_780_821_917_808n;
+const secondaryEpochIssuance = 61_369_863_013_698n;
+const genesisAccumulatedRate = 10_000_000_000_000_000n;
+const zeroHash =
+  "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+export const errorMockUnknownInput = "Input cell is not live in mock chain";
+export const errorMockUnknownBlock = "Block not found in mock chain";
+export const errorMockUnknownBatchMethod =
+  "RPC method in batch is not implemented by mock chain";
+export const errorMockNoCycles =
+  "Mock chain never executes scripts, so it has no cycles";
+
+// ExtendedRPC methods implemented by MockChain, library functions accepting this subset work with it
+export type MockRPC = Pick<
+  ExtendedRPC,
+  | "getCellsPage"
+  | "iterateCellsByLock"
+  | "getCellsByLock"
+  | "iterateCellsByType"
+  | "getCellsByType"
+  | "searchCells"
+  | "batch"
+  | "getFeeRate"
+  | "getTipHeader"
+  | "getHeaderByNumber"
+  | "getHeader"
+  | "getBlockByNumber"
+  | "sendTransaction"
+  | "getTransaction"
+  | "getLiveCell"
+>;
+
+// Notes:
+// - MockChain is an in-memory UTXO set, scripts are never executed
+// - Only the C, AR and U fields of the DAO header follow CKB rules, S is approximated
+// - advanceEpochs produces a single block, so block numbers stay dense while epochs and timestamps jump
+export class MockChain implements MockRPC {
+  readonly epochLength: number;
+  readonly blockInterval: number;
+  readonly autoMine: boolean;
+  feeRate: bigint;
+
+  private readonly liveCells = new Map<string, Cell>();
+  private readonly pendingSpent = new Set<string>();
+  private readonly blocks: BlockView[] = [];
+  private readonly hash2Header = new Map<Hash, I8Header>();
+  private pool: Transaction[] = [];
+
+  // Chain state at the tip
+  private epochNumber = 0n;
+  private epochIndex = 0n;
+  private timestamp: bigint;
+  private c = genesisIssuance;
+  private ar = genesisAccumulatedRate;
+  private s = 0n;
+  private u = 0n;
+
+  constructor(options: MockChainOptions = {}) {
+    this.epochLength = options.epochLength ?? 1800;
+    this.blockInterval = options.blockInterval ?? 8000;
+    this.autoMine = options.autoMine ?? true;
+    this.feeRate = options.feeRate ?? 1000n;
+    this.timestamp = BigInt(options.genesisTimestamp ?? Date.now());
+
+    const genesisCells = options.genesisCells ?? [];
+    this.commit(
+      [
+        {
+          version: "0x0",
+          cellDeps: [],
+          headerDeps: [],
+          inputs: [],
+          outputs: genesisCells.map((c) => c.cellOutput),
+          outputsData: genesisCells.map((c) => c.data),
+          witnesses: [],
+        },
+      ],
+      0n,
+    );
+  }
+
+  // ExtendedRPC methods
+
+  // Cursor is the position of the next cell among the matching live cells
+  async getCellsPage(
+    searchKey: CellSearchKey,
+    order: "asc" | "desc",
+    limit: bigint | HexNumber | number,
+    cursor?: HexString,
+  ) {
+    const cells = [...this.liveCells.values()].filter((c) =>
+      isSearchMatch(c, searchKey),
+    );
+    if (order === "desc") {
+      cells.reverse();
+    }
+    const start = cursor ? Number(cursor) : 0;
+    const end = Math.min(start + Number(limit), cells.length);
+    return { cells: cells.slice(start, end), lastCursor: hex(end) };
+  }
+
+  iterateCellsByLock(
+    lock: Script,
+    order?: "asc" | "desc",
+    filter?: CellFilter,
+    pageSize?: number,
+  ) {
+    return iterateCells(
+      this,
+      { script: lock, scriptType: "lock", filter },
+      order,
+      pageSize,
+    );
+  }
+
+  async getCellsByLock(
+    lock: Script,
+    order: "asc" | "desc",
+    limit: bigint | HexNumber | number | "all",
+    filter?: CellFilter,
+  ) {
+    return takeCells(
+      this.iterateCellsByLock(lock, order, filter, pageSizeFor(limit)),
+      limit,
+    );
+  }
+
+  iterateCellsByType(
+    type: Script,
+    order?: "asc" | "desc",
+    filter?: CellFilter,
+    pageSize?: number,
+  ) {
+    return iterateCells(
+      this,
+      { script: type, scriptType: "type", filter },
+      order,
+      pageSize,
+    );
+  }
+
+  async getCellsByType(
+    type: Script,
+    order: "asc" | "desc",
+    limit: bigint | HexNumber | number | "all",
+    filter?: CellFilter,
+  ) {
+    return takeCells(
+      this.iterateCellsByType(type, order, filter, pageSizeFor(limit)),
+      limit,
+    );
+  }
+
+  async searchCells(
+    searchKey: CellSearchKey,
+    order: "asc" | "desc",
+    limit: bigint | HexNumber | number | "all",
+  ) {
+    return takeCells(
+      iterateCells(this, searchKey, order, pageSizeFor(limit)),
+      limit,
+    );
+  }
+
+  // Calls of ExtendedRPC methods not implemented by MockChain are rejected
+  async batch<const Calls extends readonly BatchCall[]>(calls: Calls) {
+    // Results follow calls order, so they match BatchResults of calls
+    return Promise.allSettled(
+      calls.map(([name, ...params]) => {
+        const method = implementedMethod(this, name);
+        return method
+          ? Reflect.apply(method, this, params)
+          : Promise.reject(Error(errorMockUnknownBatchMethod));
+      }),
+    ) as Promise<BatchResults<Calls>>;
+  }
+
+  async getFeeRate() {
+    return this.feeRate;
+  }
+
+  async getTipHeader() {
+    return this.blocks[this.blocks.length - 1].header as I8Header;
+  }
+
+  getHeaderByNumber(
+    number: bigint | HexNumber,
+    verbosity?: "0x1",
+  ): Promise<I8Header>;
+  getHeaderByNumber(
+    number: bigint | HexNumber,
+    verbosity: "0x0",
+  ): Promise<HexString>;
+  async getHeaderByNumber(
+    number: bigint | HexNumber,
+    verbosity: "0x0" | "0x1" = "0x1",
+  ) {
+    const header = this.blockByNumber(number).header as I8Header;
+    return verbosity === "0x0" ? hexify(HeaderCodec.pack(header)) : header;
+  }
+
+  getHeader(hash: Hash, verbosity?: "0x1"): Promise<I8Header>;
+  getHeader(hash: Hash, verbosity: "0x0"): Promise<HexString>;
+  async getHeader(hash: Hash, verbosity: "0x0" | "0x1" = "0x1") {
+    const header = this.hash2Header.get(hash);
+    if (!header) {
+      throw Error(errorMockUnknownBlock);
+    }
+    return verbosity === "0x0" ? hexify(HeaderCodec.pack(header)) : header;
+  }
+
+  getBlockByNumber(
+    number: bigint | HexNumber,
+    verbosity?: "0x2",
+    withCycle?: false,
+  ): Promise<BlockView>;
+  getBlockByNumber(
+    number: bigint | HexNumber,
+    verbosity: "0x0",
+    withCycle?: false,
+  ): Promise<HexString>;
+  getBlockByNumber(
+    number: bigint | HexNumber,
+    verbosity: "0x0",
+    withCycle: true,
+  ): Promise<{ block: HexString; cycles: HexNumber }>;
+  getBlockByNumber(
+    number: bigint | HexNumber,
+    verbosity: "0x2",
+    withCycle: true,
+  ): Promise<{ block: BlockView; cycles: HexNumber }>;
+  async getBlockByNumber(
+    number: bigint | HexNumber,
+    verbosity: "0x0" | "0x2" = "0x2",
+    withCycle: boolean = false,
+  ): Promise<BlockView | HexString | { block: unknown; cycles: HexNumber }> {
+    if (withCycle) {
+      throw Error(errorMockNoCycles);
+    }
+    const block = this.blockByNumber(number);
+    return verbosity === "0x0" ? hexify(BlockCodec.pack(block)) : block;
+  }
+
+  async sendTransaction(tx: Transaction) {
+    for (const { previousOutput } of tx.inputs) {
+      const key = outPointKey(previousOutput);
+      if (!this.liveCells.has(key) || this.pendingSpent.has(key)) {
+        throw Error(errorMockUnknownInput);
+      }
+    }
+
+    tx.inputs.forEach(({ previousOutput }) =>
+      this.pendingSpent.add(outPointKey(previousOutput)),
+    );
+    this.pool.push(tx);
+
+    const hash = txHash(tx);
+    if (this.autoMine) {
+      this.generateBlock();
+    }
+    return hash;
+  }
+
+  // Pool metadata is not tracked, so timeAddedToPool, cycles, fee and minReplaceFee are always null
+  getTransaction(hash: Hash): Promise<TransactionWithStatus<TransactionView>>;
+  getTransaction(
+    hash: Hash,
+    verbosity: "0x0",
+    onlyCommitted?: boolean,
+  ): Promise<TransactionWithStatus<HexString>>;
+  getTransaction(
+    hash: Hash,
+    verbosity: "0x1",
+    onlyCommitted?: boolean,
+  ): Promise<TransactionWithStatus<null>>;
+  getTransaction(
+    hash: Hash,
+    verbosity: "0x2",
+    onlyCommitted?: boolean,
+  ): Promise<TransactionWithStatus<TransactionView>>;
+  async getTransaction(
+    hash: Hash,
+    verbosity: "0x0" | "0x1" | "0x2" = "0x2",
+    onlyCommitted: boolean = false,
+  ): Promise<TransactionWithStatus<TransactionView | HexString | null>> {
+    const withStatus = (
+      tx: TransactionView | null,
+      txStatus: TransactionWithStatus["txStatus"],
+    ) => ({
+      transaction:
+        tx === null || verbosity === "0x1"
+          ? null
+          : verbosity === "0x0"
+            ? hexify(TransactionCodec.pack(tx))
+            : tx,
+      txStatus,
+      timeAddedToPool: null,
+      cycles: null,
+      fee: null,
+      minReplaceFee: null,
+    });
+
+    const pooled = this.pool.find((tx) => txHash(tx) === hash);
+    if (pooled && !onlyCommitted) {
+      return withStatus({ ...pooled, hash }, { status: "pending" });
+    }
+    for (const { header, transactions } of this.blocks) {
+      const committed = transactions.find((tx) => tx.hash === hash);
+      if (committed) {
+        return withStatus(committed, {
+          status: "committed",
+          blockHash: header.hash,
+        });
+      }
+    }
+    return withStatus(null, { status: "unknown" });
+  }
+
+  async getLiveCell(outPoint: OutPoint, withData: boolean) {
+    const c = this.liveCells.get(outPointKey(outPoint));
+    if (!c) {
+      return { cell: null, status: CKBComponents.CellStatus.Unknown };
+    }
+    return {
+      cell: {
+        output: c.cellOutput,
+        data: withData
+          ? { content: c.data, hash: ckbHash(c.data) }
+          : { content: "0x", hash: zeroHash },
+      },
+      status: CKBComponents.CellStatus.Live,
+    };
+  }
+
+  // Mock chain controls
+
+  generateBlock() {
+    return this.commit(this.pool, 1n);
+  }
+
+  advanceEpochs(epochs: number) {
+    return this.commit(this.pool, BigInt(epochs * this.epochLength));
+  }
+
+  private blockByNumber(number: bigint | HexNumber) {
+    const block = this.blocks[Number(number)];
+    if (!block) {
+      throw Error(errorMockUnknownBlock);
+    }
+    return block;
+  }
+
+  private commit(transactions: Transaction[], elapsedBlocks: bigint) {
+    this.pool = [];
+    this.pendingSpent.clear();
+
+    // Update DAO fields and epoch as if elapsedBlocks blocks were produced
+    const epochLength = BigInt(this.epochLength);
+    for (let i = 0n; i < elapsedBlocks; i++) {
+      const secondary = secondaryEpochIssuance / epochLength;
+      const minerSecondary = (secondary * this.u) / this.c;
+      this.ar += (this.ar * secondary) / this.c;
+      this.s += secondary - minerSecondary;
+      this.c += primaryEpochIssuance / epochLength + secondary;
+    }
+    const rawIndex = this.epochIndex + elapsedBlocks;
+    this.epochIndex = rawIndex % epochLength;
+    this.epochNumber += rawIndex / epochLength;
+    this.timestamp += elapsedBlocks * BigInt(this.blockInterval);
+
+    const number = BigInt(this.blocks.length);
+    const hashes = transactions.map(txHash);
+    const raw = {
+      version: "0x0",
+      compactTarget: "0x1e015555",
+      timestamp: hex(this.timestamp),
+      number: hex(number),
+      epoch: generateHeaderEpoch({
+        number: Number(this.epochNumber),
+        index: Number(this.epochIndex),
+        length: this.epochLength,
+      }),
+      parentHash:
+        number > 0n
+          ? this.blocks[this.blocks.length - 1].header.hash
+          : zeroHash,
+      transactionsRoot:
+        hashes.length > 0 ? ckbHash(bytes.concat(...hashes)) : zeroHash,
+      proposalsHash: zeroHash,
+      extraHash: zeroHash,
+      dao: "0x",
+    };
+
+    // Apply transactions to the UTXO set
+    transactions.forEach((tx, txIndex) => {
+      for (const { previousOutput } of tx.inputs) {
+        const key = outPointKey(previousOutput);
+        this.u -= occupiedCapacity(this.liveCells.get(key)!);
+        this.liveCells.delete(key);
+      }
+      tx.outputs.forEach((cellOutput, index) => {
+        const c: Cell = {
+          cellOutput,
+          data: tx.outputsData[index] ?? "0x",
+          outPoint: { txHash: hashes[txIndex], index: hex(index) },
+          blockNumber: hex(number),
+          txIndex: hex(txIndex),
+        };
+        this.u += occupiedCapacity(c);
+        this.liveCells.set(outPointKey(c.outPoint!), c);
+      });
+    });
+
+    raw.dao = bytes.hexify(
+      bytes.concat(
+        Uint64.pack(this.c),
+        Uint64.pack(this.ar),
+        Uint64.pack(this.s),
+        Uint64.pack(this.u),
+      ),
+    );
+    const nonce = "0x0";
+    const header = I8Header.from({
+      ...raw,
+      nonce,
+      hash: ckbHash(BaseHeader.pack({ raw, nonce })),
+    });
+
+    for (const c of this.liveCells.values()) {
+      if (c.blockNumber === raw.number) {
+        c.blockHash = header.hash;
+      }
+    }
+
+    this.blocks.push({
+      header,
+      transactions: transactions.map((tx, i) => ({ ...tx, hash: hashes[i] })),
+      uncles: [],
+      proposals: [],
+      extension: "0x",
+    });
+    this.hash2Header.set(header.hash, header);
+
+    return header;
+  }
+}
+
+function isSearchMatch(
+  c: Cell,
+  { script, scriptType, scriptSearchMode, filter }: CellSearchKey,
+) {
+  const { lock, type, capacity } = c.cellOutput;
+  const [searched, other] = scriptType === "lock" ? [lock, type] : [type, lock];
+  const mode = scriptSearchMode ?? "exact";
+  if (
+    !searched ||
+    searched.codeHash !== script.codeHash ||
+    searched.hashType !== script.hashType ||
+    !(mode === "exact"
+      ? searched.args === script.args
+      : mode === "prefix"
+        ? searched.args.startsWith(script.args)
+        : hasBytesAt(searched.args.slice(2), script.args.slice(2)))
+  ) {
+    return false;
+  }
+  if (!filter) {
+    return true;
+  }
+
+  const inRange = (n: bigint, range?: readonly [bigint, bigint]) =>
+    !range || (range[0] <= n && n < range[1]);
+
+  // Script length as computed by the indexer: code hash, hash type and args
+  const otherLength = other ? 33 + bytes.bytify(other.args).byteLength : 0;
+  const data = c.data.slice(2);
+  const filterData = filter.outputData?.slice(2);
+  const dataMode = filter.outputDataFilterMode ?? "prefix";
+  return (
+    (!filter.script || scriptEq(other, filter.script)) &&
+    inRange(BigInt(otherLength), filter.scriptLenRange) &&
+    (filterData === undefined ||
+      (dataMode === "exact"
+        ? data === filterData
+        : dataMode === "prefix"
+          ? data.startsWith(filterData)
+          : hasBytesAt(data, filterData))) &&
+    inRange(BigInt(capacity), filter.outputCapacityRange) &&
+    inRange(BigInt(c.blockNumber ?? 0), filter.blockRange)
+  );
+}
+
+// Byte aligned search of part in data, both without 0x prefix
+function hasBytesAt(data: string, part: string) {
+  for (let i = 0; i + part.length <= data.length; i += 2) {
+    if (data.startsWith(part, i)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function mockChainConfigFrom(
+  mock: MockChain,
+  chain: Chain = "testnet",
+  neuterLumosConfig: boolean = false,
+  ...customizations: ((
+    chain: Chain,
+    scriptConfigs: { [id: string]: ScriptConfigAdapter },
+  ) => { [id: string]: ScriptConfigAdapter })[]
+) {
+  return chainConfigFromRPC(
+    chain,
+    mock,
+    "mock://",
+    neuterLumosConfig,
+    ...customizations,
+  );
+}
+
+function implementedMethod(
+  rpc: Partial<Pick<ExtendedRPC, BatchMethod>>,
+  name: BatchMethod,
+) {
+  return rpc[name];
+}
+
+function txHash(tx: Transaction): Hash {
+  return ckbHash(RawTransaction.pack(tx));
+}
+
+function outPointKey(o: OutPoint) {
+  return `${o.txHash}-${Number(o.index)}`;
+}
+
+function occupiedCapacity(c: Cell) {
+  return minimalCellCapacityCompatible(c, { validate: false }).toBigInt();
+}
@@ -0,0 +1,122 @@
+import type { HexString, PackedSince } from "@ckb-lumos/base";
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { ckbHash } from "@ckb-lumos/base/lib/utils.js";
+import { hexify } from "@ckb-lumos/codec/lib/bytes.js";
+import { I8Script, since, witness } from "./cell.js";
+import type { ConfigAdapter } from "./config.js";
+import { addWitnessPlaceholder } from "./transaction.js";
+import { addSigningEntries } from "./signing.js";
+import { scriptEq } from "./utils.js";
+import { Uint8, Uint64 } from "./codec.js";
+
+export interface MultisigInfo {
+  requireFirstN: number;
+  threshold: number;
+  publicKeyHashes: readonly HexString[];
+  since?: PackedSince;
+}
+
+export interface MultisigSignature {
+  publicKeyHash: HexString;
+  signature: HexString;
+}
+
+const signatureSize = 65;
+
+export const errorInvalidMultisigInfo = "Invalid multisig parameters";
+// Multisig script is: 0x00 | require_first_n | threshold | pubkeys_cnt | blake160 hashes
+export function multisigScript(info: MultisigInfo) {
+  const { requireFirstN, threshold, publicKeyHashes } = info;
+  const n = publicKeyHashes.length;
+  if (
+    n === 0 ||
+    n > 255 ||
+    threshold === 0 ||
+    threshold > n ||
+    requireFirstN > threshold ||
+    publicKeyHashes.some((h) => h.length !== 42)
+  ) {
+    throw Error(errorInvalidMultisigInfo);
+  }
+
+  return (
+    hexify(Uint8.pack(0)) +
+    hexify(Uint8.pack(requireFirstN)).slice(2) +
+    hexify(Uint8.pack(threshold)).slice(2) +
+    hexify(Uint8.pack(n)).slice(2) +
+    publicKeyHashes.map((h) => h.slice(2)).join("")
+  );
+}
+
+// Lock args are blake160 of multisig script, optionally followed by the since as little-endian u64
+export function multisigArgs(info: MultisigInfo) {
+  const blake160 = ckbHash(multisigScript(info)).slice(0, 42);
+  return info.since !== undefined
+    ? blake160 + hexify(Uint64.pack(BigInt(info.since))).slice(2)
+    : blake160;
+}
+
+export function multisigAccountLockFrom(
+  info: MultisigInfo,
+  config: ConfigAdapter,
+) {
+  const defaultMultisig = config.defaultScript("SECP256K1_BLAKE160_MULTISIG");
+  return I8Script.from({
+    ...defaultMultisig,
+    args: multisigArgs(info),
+    [witness]: multisigWitnessPlaceholder(info),
+    [since]: info.since ?? defaultMultisig[since],
+  });
+}
+
+export function multisigWitnessPlaceholder(info: MultisigInfo) {
+  return multisigScript(info) + "00".repeat(signatureSize * info.threshold);
+}
+
+// Each cosigner signs the message of the signing entry of accountLock
+export function addMultisigSigningEntries(
+  tx: TransactionSkeletonType,
+  accountLock: I8Script,
+  info: MultisigInfo,
+) {
+  tx = addWitnessPlaceholder(tx, accountLock, multisigWitnessPlaceholder(info));
+  return addSigningEntries(tx, (lock) => scriptEq(lock, accountLock));
+}
+
+export const errorMultisigUnknownKey =
+  "Signature from a key not in multisig script";
+export const errorMultisigMissingRequired =
+  "Missing a signature from the first required keys";
+export const errorMultisigNotEnoughSignatures =
+  "Not enough signatures to reach multisig threshold";
+// Merge partial signatures into the lock witness, which can then be added with addSignatures
+export function mergeMultisigSignatures(
+  info: MultisigInfo,
+  ...partials: readonly (readonly MultisigSignature[])[]
+) {
+  const index2Signature = new Map<number, HexString>();
+  for (const { publicKeyHash, signature } of partials.flat()) {
+    const index = info.publicKeyHashes.indexOf(publicKeyHash);
+    if (index < 0) {
+      throw Error(errorMultisigUnknownKey);
+    }
+    index2Signature.set(index, signature);
+  }
+
+  for (let i = 0; i < info.requireFirstN; i++) {
+    if (!index2Signature.has(i)) {
+      throw Error(errorMultisigMissingRequired);
+    }
+  }
+
+  // Signatures are sorted by key position, the first required ones are always included
+  const signatures = [...index2Signature.entries()]
+    .sort(([i0], [i1]) => i0 - i1)
+    .slice(0, info.threshold)
+    .map(([, signature]) => signature.slice(2));
+  if (signatures.length < info.threshold) {
+    throw Error(errorMultisigNotEnoughSignatures);
+  }
+
+  return multisigScript(info) + signatures.join("");
+}
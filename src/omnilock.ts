@@ -0,0 +1,126 @@
+import type { HexString, PackedSince } from "@ckb-lumos/base";
+import { ckbHash } from "@ckb-lumos/base/lib/utils.js";
+import { bytes } from "@ckb-lumos/codec";
+import { hexify } from "@ckb-lumos/codec/lib/bytes.js";
+import { OmnilockWitnessLock } from "@ckb-lumos/common-scripts/lib/omnilock.js";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { I8Script, cellDeps, since, witness } from "./cell.js";
+import type { ConfigAdapter } from "./config.js";
+import type { MultisigInfo } from "./multisig.js";
+import { multisigScript, multisigWitnessPlaceholder } from "./multisig.js";
+import { Uint8, Uint64 } from "./codec.js";
+
+// Auth flags of the supported auth flavours, see https://github.com/nervosnetwork/rfcs/blob/master/rfcs/0042-omnilock/0042-omnilock.md
+export const OMNILOCK_AUTH_SECP256K1 = 0x00;
+export const OMNILOCK_AUTH_ETHEREUM = 0x01;
+export const OMNILOCK_AUTH_MULTISIG = 0x06;
+
+// Omnilock args flags, optional args are appended in increasing flag order
+const acpFlag = 0x02;
+const timeLockFlag = 0x04;
+
+export type OmnilockAuth =
+  | { flag: typeof OMNILOCK_AUTH_SECP256K1; blake160: HexString }
+  | { flag: typeof OMNILOCK_AUTH_ETHEREUM; address: HexString }
+  | { flag: typeof OMNILOCK_AUTH_MULTISIG; multisig: MultisigInfo };
+
+export interface OmnilockInfo {
+  auth: OmnilockAuth;
+  // ACP mode minimums, expressed as powers of ten like in the ACP lock
+  acp?: { minCkbExponent: number; minUdtExponent: number };
+  // Time-lock mode since, as in the multisig lock
+  since?: PackedSince;
+}
+
+const signatureSize = 65;
+
+export const errorInvalidOmnilockAuth = "Invalid omnilock auth content";
+// Omnilock args are: auth flag | auth content (20 bytes) | omnilock flags | optional args
+export function omnilockArgs(info: OmnilockInfo) {
+  const { auth, acp, since } = info;
+  const content =
+    auth.flag === OMNILOCK_AUTH_SECP256K1
+      ? auth.blake160
+      : auth.flag === OMNILOCK_AUTH_ETHEREUM
+        ? auth.address
+        : ckbHash(multisigScript(auth.multisig)).slice(0, 42);
+  if (content.length !== 42) {
+    throw Error(errorInvalidOmnilockAuth);
+  }
+
+  let flags = 0;
+  let optionalArgs = "";
+  if (acp !== undefined) {
+    flags |= acpFlag;
+    optionalArgs +=
+      hexify(Uint8.pack(acp.minCkbExponent)).slice(2) +
+      hexify(Uint8.pack(acp.minUdtExponent)).slice(2);
+  }
+  if (since !== undefined) {
+    flags |= timeLockFlag;
+    optionalArgs += hexify(Uint64.pack(BigInt(since))).slice(2);
+  }
+
+  return (
+    hexify(Uint8.pack(auth.flag)) +
+    content.slice(2) +
+    hexify(Uint8.pack(flags)).slice(2) +
+    optionalArgs
+  );
+}
+
+// Notes:
+// - Omnilock verifies secp256k1 signatures, so it also needs the secp256k1 data from the default lock cell deps
+// - The witness placeholder has the length of the molecule encoded OmnilockWitnessLock
+export function omnilockAccountLockFrom(
+  info: OmnilockInfo,
+  config: ConfigAdapter,
+) {
+  const defaultOmnilock = config.defaultScript("OMNILOCK");
+  const defaultLock = config.defaultScript("SECP256K1_BLAKE160");
+  return I8Script.from({
+    ...defaultOmnilock,
+    args: omnilockArgs(info),
+    [cellDeps]: [...defaultOmnilock[cellDeps], ...defaultLock[cellDeps]],
+    [witness]: omnilockWitnessPlaceholder(info),
+    [since]: info.since ?? defaultOmnilock[since],
+  });
+}
+
+// Omnilock zeroes the whole lock witness before computing the sighash-all message, so the placeholder is all zeros
+export function omnilockWitnessPlaceholder(info: OmnilockInfo) {
+  const { auth } = info;
+  const signature =
+    auth.flag === OMNILOCK_AUTH_MULTISIG
+      ? multisigWitnessPlaceholder(auth.multisig)
+      : "0x" + "00".repeat(signatureSize);
+  return "0x" + "00".repeat(OmnilockWitnessLock.pack({ signature }).byteLength);
+}
+
+// Wrap a signature, or a merged multisig witness, so that it can be added with addSignatures
+export function omnilockWitnessLock(signature: HexString) {
+  return hexify(OmnilockWitnessLock.pack({ signature }));
+}
+
+// Notes:
+// - Secp256k1 and multisig auths sign the sighash-all message of the signing entry as is
+// - Ethereum auth signs the personal_sign message, so it can be signed by Ethereum wallets
+export function omnilockSigningMessage(info: OmnilockInfo, message: HexString) {
+  if (info.auth.flag !== OMNILOCK_AUTH_ETHEREUM) {
+    return message;
+  }
+
+  return hexify(
+    keccak_256(
+      bytes.concat(
+        bytes.bytifyRawString("\x19Ethereum Signed Message:\n32"),
+        message,
+      ),
+    ),
+  );
+}
+
+// Ethereum address from an uncompressed public key (65 bytes, starting with 0x04)
+export function ethereumAddress(publicKey: HexString) {
+  return hexify(keccak_256(bytes.bytify(publicKey).slice(1)).slice(-20));
+}
@@ -0,0 +1,72 @@
+import type { Hash } from "@ckb-lumos/base";
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { List } from "immutable";
+import { I8Cell, type I8Script } from "./cell.js";
+import type { ConfigAdapter, ExtendedRPC } from "./config.js";
+import { ckbDelta } from "./dao.js";
+import { hex, scriptEq } from "./utils.js";
+
+// Minimum fee of a replacement, as reported by the pool for a transaction still pending in it
+export const errorNotReplaceable =
+  "Transaction is not in the pool, so it cannot be replaced";
+export async function minReplaceFeeOf(
+  rpc: Pick<ExtendedRPC, "getTransaction">,
+  txHash: Hash,
+) {
+  const { minReplaceFee } = await rpc.getTransaction(txHash);
+  if (!minReplaceFee) {
+    throw Error(errorNotReplaceable);
+  }
+  return BigInt(minReplaceFee);
+}
+
+// Notes:
+// - Change cell is the last output, as added by addCkbChange for accountLock
+// - All inputs are kept, so that the replacement conflicts with the original
+// - Only the change capacity is reduced, until the fee reaches minReplaceFee
+// - Signatures of the original are no longer valid, so signing entries are cleared and tx must be signed again
+export const errorRbfMissingChange =
+  "Last output is not a CKB change cell of accountLock";
+export const errorRbfChangeTooSmall = "Change cannot absorb the fee bump";
+export function bumpFee(
+  tx: TransactionSkeletonType,
+  accountLock: I8Script,
+  minReplaceFee: bigint,
+  config: ConfigAdapter,
+) {
+  const changeIndex = tx.outputs.size - 1;
+  const change = tx.outputs.get(changeIndex);
+  if (
+    !change ||
+    !scriptEq(change.cellOutput.lock, accountLock) ||
+    change.cellOutput.type ||
+    change.data !== "0x"
+  ) {
+    throw Error(errorRbfMissingChange);
+  }
+
+  const txFee = ckbDelta(tx, config);
+  const bump = minReplaceFee - txFee;
+  if (bump <= 0n) {
+    return { tx, txFee, bump: 0n };
+  }
+
+  const capacity = BigInt(change.cellOutput.capacity) - bump;
+  const minimalCapacity = BigInt(
+    I8Cell.from({ lock: accountLock }).cellOutput.capacity,
+  );
+  if (capacity < minimalCapacity) {
+    throw Error(errorRbfChangeTooSmall);
+  }
+
+  tx = tx
+    .update("outputs", (outputs) =>
+      outputs.set(
+        changeIndex,
+        I8Cell.from({ lock: accountLock, capacity: hex(capacity) }),
+      ),
+    )
+    .set("signingEntries", List());
+
+  return { tx, txFee: minReplaceFee, bump };
+}
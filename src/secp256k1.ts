@@ -0,0 +1,43 @@
+import type { HexString } from "@ckb-lumos/base";
+import { ckbHash } from "@ckb-lumos/base/lib/utils.js";
+import { bytes } from "@ckb-lumos/codec";
+import { hexify } from "@ckb-lumos/codec/lib/bytes.js";
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+
+// Secp256k1 for signing CKB transactions, curve arithmetic is delegated to the audited @noble/curves
+// Notes:
+// - Nonce is derived deterministically as in RFC6979
+// - Signatures are low s, as malleable signatures are rejected
+
+export const errorInvalidPrivateKey = "Invalid secp256k1 private key";
+export function secp256k1PublicKey(privateKey: HexString) {
+  return hexify(secp256k1.getPublicKey(privateKeyFrom(privateKey), true));
+}
+
+// Lock args of the default SECP256K1_BLAKE160 lock
+export function secp256k1Blake160(privateKey: HexString) {
+  return ckbHash(secp256k1PublicKey(privateKey)).slice(0, 42);
+}
+
+// Signature is encoded as expected by CKB: r (32 bytes), s (32 bytes) and recovery id (1 byte)
+export function secp256k1Sign(privateKey: HexString, message: HexString) {
+  const signature = secp256k1.sign(
+    bytes.bytify(message),
+    privateKeyFrom(privateKey),
+    { lowS: true },
+  );
+  return hexify(
+    bytes.concat(
+      signature.toCompactRawBytes(),
+      new Uint8Array([signature.recovery]),
+    ),
+  );
+}
+
+function privateKeyFrom(privateKey: HexString) {
+  const b = bytes.bytify(privateKey);
+  if (b.byteLength !== 32 || !secp256k1.utils.isValidPrivateKey(b)) {
+    throw Error(errorInvalidPrivateKey);
+  }
+  return b;
+}
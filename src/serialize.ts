@@ -0,0 +1,236 @@
+import type {
+  Cell,
+  CellDep,
+  Hash,
+  HashType,
+  Header,
+  HexNumber,
+  HexString,
+  PackedSince,
+  Script,
+} from "@ckb-lumos/base";
+import { TransactionSkeleton } from "@ckb-lumos/helpers";
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { List, Map as ImmutableMap } from "immutable";
+import {
+  I8Cell,
+  I8CellDep,
+  I8Header,
+  I8Script,
+  cellDeps,
+  headerDeps,
+  i8ScriptPadding,
+  since,
+  witness,
+} from "./cell.js";
+
+// JSON friendly versions of the I8 data structures, symbol metadata included
+export interface SerializedI8Script {
+  codeHash: Hash;
+  hashType: HashType;
+  args: HexString;
+  cellDeps: CellDep[];
+  headerDeps: Header[];
+  witness?: HexString;
+  since: PackedSince;
+}
+
+export interface SerializedI8Cell {
+  cellOutput: {
+    capacity: HexNumber;
+    lock: SerializedI8Script;
+    type?: SerializedI8Script;
+  };
+  data: HexString;
+  outPoint?: { txHash: Hash; index: HexNumber };
+  blockHash?: Hash;
+  blockNumber?: HexNumber;
+  txIndex?: HexNumber;
+}
+
+export interface SerializedTransactionSkeleton {
+  cellDeps: CellDep[];
+  headerDeps: Hash[];
+  inputs: SerializedI8Cell[];
+  outputs: SerializedI8Cell[];
+  witnesses: HexString[];
+  fixedEntries: { field: string; index: number }[];
+  signingEntries: { type: string; index: number; message: string }[];
+  inputSinces: [number, PackedSince][];
+}
+
+type SerializedKind =
+  | "I8Script"
+  | "I8Cell"
+  | "I8Header"
+  | "TransactionSkeleton";
+
+const serializationVersion = 1;
+
+export function serializeI8Script(s: Script) {
+  return envelop("I8Script", fromI8Script(s));
+}
+
+export function deserializeI8Script(json: string) {
+  return toI8Script(unenvelop(json, "I8Script") as SerializedI8Script);
+}
+
+export function serializeI8Cell(c: Cell) {
+  return envelop("I8Cell", fromI8Cell(c));
+}
+
+export function deserializeI8Cell(json: string) {
+  return toI8Cell(unenvelop(json, "I8Cell") as SerializedI8Cell);
+}
+
+export function serializeI8Header(h: Header) {
+  return envelop("I8Header", fromHeader(h));
+}
+
+export function deserializeI8Header(json: string) {
+  return I8Header.from(unenvelop(json, "I8Header") as Header);
+}
+
+// Notes:
+// - cellProvider is not serializable, so it's always deserialized as null
+// - Plain cells are serialized with the default I8 metadata
+export function serializeTransactionSkeleton(tx: TransactionSkeletonType) {
+  const serialized: SerializedTransactionSkeleton = {
+    cellDeps: tx.cellDeps.map(fromCellDep).toArray(),
+    headerDeps: tx.headerDeps.toArray(),
+    inputs: tx.inputs.map(fromI8Cell).toArray(),
+    outputs: tx.outputs.map(fromI8Cell).toArray(),
+    witnesses: tx.witnesses.toArray(),
+    fixedEntries: tx.fixedEntries
+      .map(({ field, index }) => ({ field, index }))
+      .toArray(),
+    signingEntries: tx.signingEntries
+      .map(({ type, index, message }) => ({ type, index, message }))
+      .toArray(),
+    inputSinces: tx.inputSinces.entrySeq().toArray(),
+  };
+  return envelop("TransactionSkeleton", serialized);
+}
+
+export function deserializeTransactionSkeleton(
+  json: string,
+): TransactionSkeletonType {
+  const s = unenvelop(
+    json,
+    "TransactionSkeleton",
+  ) as SerializedTransactionSkeleton;
+  return TransactionSkeleton({
+    cellProvider: null,
+    cellDeps: List(s.cellDeps.map((d) => I8CellDep.from(d))),
+    headerDeps: List(s.headerDeps),
+    inputs: List(s.inputs.map(toI8Cell)),
+    outputs: List(s.outputs.map(toI8Cell)),
+    witnesses: List(s.witnesses),
+    fixedEntries: List(s.fixedEntries.map((e) => Object.freeze(e))),
+    signingEntries: List(s.signingEntries.map((e) => Object.freeze(e))),
+    inputSinces: ImmutableMap(s.inputSinces),
+  });
+}
+
+export const errorUnsupportedSerializationVersion =
+  "Unsupported serialization version";
+export const errorWrongSerializedKind =
+  "Serialized data is of a different kind";
+function unenvelop(json: string, kind: SerializedKind): unknown {
+  const envelope = JSON.parse(json) as {
+    version: number;
+    kind: SerializedKind;
+    value: unknown;
+  };
+  if (envelope.version !== serializationVersion) {
+    throw Error(errorUnsupportedSerializationVersion);
+  }
+  if (envelope.kind !== kind) {
+    throw Error(errorWrongSerializedKind);
+  }
+  return envelope.value;
+}
+
+function envelop(kind: SerializedKind, value: unknown) {
+  return JSON.stringify({ version: serializationVersion, kind, value });
+}
+
+function fromI8Script(s: Script): SerializedI8Script {
+  const i8 =
+    s instanceof I8Script ? s : I8Script.from({ ...i8ScriptPadding, ...s });
+  return {
+    codeHash: i8.codeHash,
+    hashType: i8.hashType,
+    args: i8.args,
+    cellDeps: i8[cellDeps].map(fromCellDep),
+    headerDeps: i8[headerDeps].map(fromHeader),
+    witness: i8[witness],
+    since: i8[since],
+  };
+}
+
+function toI8Script(s: SerializedI8Script) {
+  return I8Script.from({
+    codeHash: s.codeHash,
+    hashType: s.hashType,
+    args: s.args,
+    [cellDeps]: s.cellDeps.map((d) => I8CellDep.from(d)),
+    [headerDeps]: s.headerDeps.map((h) => I8Header.from(h)),
+    [witness]: s.witness,
+    [since]: s.since,
+  });
+}
+
+function fromI8Cell(c: Cell): SerializedI8Cell {
+  const { capacity, lock, type } = c.cellOutput;
+  return {
+    cellOutput: {
+      capacity,
+      lock: fromI8Script(lock),
+      type: type ? fromI8Script(type) : undefined,
+    },
+    data: c.data,
+    outPoint: c.outPoint
+      ? { txHash: c.outPoint.txHash, index: c.outPoint.index }
+      : undefined,
+    blockHash: c.blockHash,
+    blockNumber: c.blockNumber,
+    txIndex: c.txIndex,
+  };
+}
+
+function toI8Cell(c: SerializedI8Cell) {
+  const { capacity, lock, type } = c.cellOutput;
+  return I8Cell.from({
+    ...c,
+    cellOutput: {
+      capacity,
+      lock: toI8Script(lock),
+      type: type ? toI8Script(type) : undefined,
+    },
+  });
+}
+
+function fromCellDep(d: CellDep): CellDep {
+  return {
+    outPoint: { txHash: d.outPoint.txHash, index: d.outPoint.index },
+    depType: d.depType,
+  };
+}
+
+function fromHeader(h: Header): Header {
+  return {
+    timestamp: h.timestamp,
+    number: h.number,
+    epoch: h.epoch,
+    compactTarget: h.compactTarget,
+    dao: h.dao,
+    hash: h.hash,
+    nonce: h.nonce,
+    parentHash: h.parentHash,
+    proposalsHash: h.proposalsHash,
+    transactionsRoot: h.transactionsRoot,
+    extraHash: h.extraHash,
+    version: h.version,
+  };
+}
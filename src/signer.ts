@@ -0,0 +1,51 @@
+import type { HexString, Transaction } from "@ckb-lumos/base";
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { createTransactionFromSkeleton } from "@ckb-lumos/helpers";
+import { I8Script } from "./cell.js";
+import type { ConfigAdapter } from "./config.js";
+import { addWitnessPlaceholder } from "./transaction.js";
+import { addSignatures, addSigningEntries } from "./signing.js";
+import {
+  secp256k1Blake160,
+  secp256k1PublicKey,
+  secp256k1Sign,
+} from "./secp256k1.js";
+import { scriptEq } from "./utils.js";
+
+export interface Signer {
+  sign(
+    tx: TransactionSkeletonType,
+    accountLock: I8Script,
+  ): Promise<Transaction>;
+}
+
+export class Secp256k1Signer implements Signer {
+  private readonly privateKey: HexString;
+  readonly publicKey: HexString;
+  readonly blake160: HexString;
+
+  constructor(privateKey: HexString) {
+    this.privateKey = privateKey;
+    this.publicKey = secp256k1PublicKey(privateKey);
+    this.blake160 = secp256k1Blake160(privateKey);
+    Object.freeze(this);
+  }
+
+  accountLock(config: ConfigAdapter) {
+    return I8Script.from({
+      ...config.defaultScript("SECP256K1_BLAKE160"),
+      args: this.blake160,
+    });
+  }
+
+  // Only the lock group of accountLock is signed, other lock groups must be signed by other signers
+  async sign(tx: TransactionSkeletonType, accountLock: I8Script) {
+    tx = addWitnessPlaceholder(tx, accountLock);
+    tx = addSigningEntries(tx, (lock) => scriptEq(lock, accountLock));
+    const signatures = tx.signingEntries
+      .map(({ message }) => secp256k1Sign(this.privateKey, message))
+      .toArray();
+    tx = addSignatures(tx, signatures);
+    return createTransactionFromSkeleton(tx);
+  }
+}
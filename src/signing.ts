@@ -0,0 +1,96 @@
+import type { HexString, Script } from "@ckb-lumos/base";
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { createTransactionFromSkeleton } from "@ckb-lumos/helpers";
+import { CKBHasher, ckbHash } from "@ckb-lumos/base/lib/utils.js";
+import { RawTransaction, WitnessArgs } from "@ckb-lumos/base/lib/blockchain.js";
+import { bytes } from "@ckb-lumos/codec";
+import { hexify } from "@ckb-lumos/codec/lib/bytes.js";
+import { List } from "immutable";
+import { Uint64 } from "./codec.js";
+import { scriptKey } from "./utils.js";
+
+export const SIGHASH_ALL = "witness_args_lock";
+
+export function txHashOf(tx: TransactionSkeletonType) {
+  return ckbHash(RawTransaction.pack(createTransactionFromSkeleton(tx)));
+}
+
+export function lockGroups(tx: TransactionSkeletonType) {
+  const groups = new Map<string, { lock: Script; indexes: number[] }>();
+  tx.inputs.forEach(({ cellOutput: { lock } }, index) => {
+    const key = scriptKey(lock);
+    const group = groups.get(key);
+    if (group) {
+      group.indexes.push(index);
+    } else {
+      groups.set(key, { lock, indexes: [index] });
+    }
+  });
+  return [...groups.values()];
+}
+
+// Notes:
+// - Message follows the sighash-all scheme: blake2b-256 with "ckb-default-hash" personalization over
+//   tx hash, then length and content of group witnesses and extra witnesses
+// - Lock witness placeholders must be already set, for example with addWitnessPlaceholder
+export const errorMissingGroupWitness =
+  "Lock group first witness is missing, add witness placeholders first";
+export function addSigningEntries(
+  tx: TransactionSkeletonType,
+  lockFilter: (lock: Script) => boolean = () => true,
+) {
+  const txHash = txHashOf(tx);
+  const extraWitnesses = tx.witnesses.slice(tx.inputs.size);
+
+  const signingEntries = lockGroups(tx)
+    .filter(({ lock }) => lockFilter(lock))
+    .map(({ indexes }) => {
+      const hasher = new CKBHasher();
+      hasher.update(txHash);
+      for (const [i, index] of indexes.entries()) {
+        const w = tx.witnesses.get(index);
+        if (w === undefined) {
+          if (i === 0) {
+            throw Error(errorMissingGroupWitness);
+          }
+          continue;
+        }
+        hashWitness(hasher, w);
+      }
+      extraWitnesses.forEach((w) => hashWitness(hasher, w));
+
+      return Object.freeze({
+        type: SIGHASH_ALL,
+        index: indexes[0],
+        message: hasher.digestHex(),
+      });
+    });
+
+  return tx.set("signingEntries", List(signingEntries));
+}
+
+// Signatures must be in the same order as signingEntries
+export const errorDifferentSignaturesLength =
+  "Signatures and signing entries have different length";
+export function addSignatures(
+  tx: TransactionSkeletonType,
+  signatures: readonly HexString[],
+) {
+  if (signatures.length !== tx.signingEntries.size) {
+    throw Error(errorDifferentSignaturesLength);
+  }
+
+  let witnesses = tx.witnesses;
+  tx.signingEntries.forEach(({ index }, i) => {
+    const unpacked = WitnessArgs.unpack(witnesses.get(index)!);
+    unpacked.lock = signatures[i];
+    witnesses = witnesses.set(index, hexify(WitnessArgs.pack(unpacked)));
+  });
+
+  return tx.set("witnesses", witnesses);
+}
+
+function hashWitness(hasher: CKBHasher, w: HexString) {
+  hasher.update(hexify(Uint64.pack(bytes.bytify(w).byteLength)));
+  hasher.update(w);
+}
@@ -0,0 +1,142 @@
+import type { Hash, Transaction } from "@ckb-lumos/base";
+import type { ChainConfig, ExtendedRPC } from "./config.js";
+import { sleep } from "./utils.js";
+
+export type TxStatus =
+  | "pending"
+  | "proposed"
+  | "committed"
+  | "rejected"
+  | "unknown";
+
+export type SubmissionOutcome =
+  | {
+      status: "committed";
+      txHash: Hash;
+      blockHash: Hash;
+      blockNumber: bigint;
+      confirmations: bigint;
+    }
+  | { status: "rejected"; txHash: Hash | undefined; reason: string }
+  | { status: "timeout"; txHash: Hash; lastStatus: TxStatus };
+
+export interface SubmissionOptions {
+  // Blocks to be produced on top of the committing block, zero returns as soon as committed
+  confirmations?: bigint;
+  // Milliseconds between two status polls
+  pollInterval?: number;
+  // Milliseconds without being committed before sending again the transaction
+  rebroadcastAfter?: number;
+  // Milliseconds before giving up with a timeout outcome
+  timeout?: number;
+  onStatusChange?: (status: TxStatus, txHash: Hash) => void;
+}
+
+// Notes:
+// - Status is polled with get_transaction, going from pending to proposed to committed
+// - A transaction that is not yet committed after rebroadcastAfter is sent again, for example after being dropped
+//   from the pool, rebroadcast errors are ignored as status polling reports the actual state
+// - A rejection by sendTransaction or by the pool is returned as rejected outcome together with its reason
+// - Errors while polling are ignored, so a timeout outcome with the txHash is returned even if the node stays unreachable
+export async function submitTx(
+  tx: Transaction,
+  chainConfig: ChainConfig<
+    Pick<
+      ExtendedRPC,
+      "sendTransaction" | "getTransaction" | "getHeader" | "getTipHeader"
+    >
+  >,
+  options: SubmissionOptions = {},
+): Promise<SubmissionOutcome> {
+  const {
+    confirmations = 0n,
+    pollInterval = 2000,
+    rebroadcastAfter = 60000,
+    timeout = 600000,
+    onStatusChange,
+  } = options;
+  const { rpc } = chainConfig;
+
+  let txHash: Hash;
+  try {
+    txHash = await rpc.sendTransaction(tx);
+  } catch (e) {
+    return { status: "rejected", txHash: undefined, reason: reasonOf(e) };
+  }
+
+  const start = Date.now();
+  let lastBroadcast = start;
+  let lastStatus: TxStatus | undefined = undefined;
+  for (;;) {
+    // Poll errors, like a node being temporarily unreachable, are retried until timeout
+    const polled = await pollTx(rpc, txHash, confirmations).catch(
+      () => undefined,
+    );
+    if (polled !== undefined) {
+      if (polled.status !== lastStatus) {
+        lastStatus = polled.status;
+        onStatusChange?.(polled.status, txHash);
+      }
+      if (polled.outcome !== undefined) {
+        return polled.outcome;
+      }
+    }
+
+    const now = Date.now();
+    if (now - start >= timeout) {
+      return { status: "timeout", txHash, lastStatus: lastStatus ?? "unknown" };
+    }
+
+    if (lastStatus !== "committed" && now - lastBroadcast >= rebroadcastAfter) {
+      lastBroadcast = now;
+      await rpc.sendTransaction(tx).catch(() => undefined);
+    }
+
+    await sleep(pollInterval);
+  }
+}
+
+// Outcome is defined once rejected or committed with enough confirmations
+async function pollTx(
+  rpc: Pick<ExtendedRPC, "getTransaction" | "getHeader" | "getTipHeader">,
+  txHash: Hash,
+  confirmations: bigint,
+): Promise<{ status: TxStatus; outcome?: SubmissionOutcome }> {
+  const { txStatus } = await rpc.getTransaction(txHash);
+  const status: TxStatus = txStatus.status;
+
+  if (status === "rejected") {
+    return {
+      status,
+      outcome: {
+        status,
+        txHash,
+        reason: txStatus.reason ?? "Rejected without reason",
+      },
+    };
+  }
+
+  if (status === "committed") {
+    const blockHash = txStatus.blockHash!;
+    const blockNumber = BigInt((await rpc.getHeader(blockHash)).number);
+    const tipNumber = BigInt((await rpc.getTipHeader()).number);
+    if (tipNumber - blockNumber >= confirmations) {
+      return {
+        status,
+        outcome: {
+          status,
+          txHash,
+          blockHash,
+          blockNumber,
+          confirmations: tipNumber - blockNumber,
+        },
+      };
+    }
+  }
+
+  return { status };
+}
+
+function reasonOf(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
@@ -13,17 +13,18 @@ import {
   headerDeps,
   I8Cell,
   i8ScriptPadding,
+  type I8Script,
   since,
   witness,
 } from "./cell.js";
 import { bytes } from "@ckb-lumos/codec";
-import { parseAbsoluteEpochSince } from "@ckb-lumos/base/lib/since.js";
 import {
   Transaction as TransactionCodec,
   WitnessArgs,
 } from "@ckb-lumos/base/lib/blockchain.js";
 import { hexify } from "@ckb-lumos/codec/lib/bytes.js";
-import { epochSinceCompare, max, scriptEq } from "./utils.js";
+import { lockGroups } from "./signing.js";
+import { max, scriptEq, sinceMerge } from "./utils.js";
 
 export const errorDifferentIOFixedEntries =
   "Unable to modify entries without messing up fixed entries";
@@ -137,6 +138,18 @@ function addWitnessesFrom(
     ...outputs.map((c) => c.cellOutput.type?.[witness]),
   );
 
+  //Keep lock witness placeholders only in the first input of each lock group
+  const allInputs = tx.inputs.splice(inputSplicingIndex, 0, ...inputs);
+  for (const { indexes } of lockGroups(tx.set("inputs", allInputs))) {
+    for (const i of indexes.slice(1)) {
+      const { lock } = allInputs.get(i)!.cellOutput;
+      const placeholder = (lock as Partial<I8Script>)[witness];
+      if (placeholder !== undefined && lockWs[i] === placeholder) {
+        lockWs[i] = undefined;
+      }
+    }
+  }
+
   //Fold witnesses
   const maxWsLength = max(inputTypeWs.length, outputTypeWs.length);
   const witnesses: string[] = [];
@@ -224,20 +237,7 @@ function addSincesFrom(
   for (const c of inputs) {
     const lockSince = c.cellOutput.lock[since];
     const typeSince = c.cellOutput.type ? c.cellOutput.type[since] : lockSince;
-    if (lockSince === sincePadding || lockSince === typeSince) {
-      newSinces.push(typeSince);
-    } else if (typeSince === sincePadding) {
-      newSinces.push(lockSince);
-    } else if (
-      epochSinceCompare(
-        parseAbsoluteEpochSince(lockSince),
-        parseAbsoluteEpochSince(typeSince),
-      ) == -1
-    ) {
-      newSinces.push(typeSince);
-    } else {
-      newSinces.push(lockSince);
-    }
+    newSinces.push(sinceMerge(lockSince, typeSince));
   }
 
   //Insert newSinces in the correct location
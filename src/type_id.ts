@@ -0,0 +1,137 @@
+import type { Cell, HexString, OutPoint, PackedSince } from "@ckb-lumos/base";
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { ckbHash } from "@ckb-lumos/base/lib/utils.js";
+import { CellInput } from "@ckb-lumos/base/lib/blockchain.js";
+import { bytes } from "@ckb-lumos/codec";
+import {
+  I8Cell,
+  I8Script,
+  cellDeps,
+  headerDeps,
+  since,
+  witness,
+} from "./cell.js";
+import { addCells, parseFixedEntries, setFixedEntries } from "./transaction.js";
+import { hex, max, typeSifter } from "./utils.js";
+import { Uint64 } from "./codec.js";
+
+// Type ID is verified natively by CKB, so it needs no cell dep, see https://xuejie.space/2020_02_03_introduction_to_ckb_script_programming_type_id/
+export const TYPE_ID_CODE_HASH =
+  "0x00000000000000000000000000000000000000000000000000545950455f4944";
+
+export function typeIdScript(args: HexString) {
+  return I8Script.from({
+    codeHash: TYPE_ID_CODE_HASH,
+    hashType: "type",
+    args,
+    [cellDeps]: [],
+    [headerDeps]: [],
+    [witness]: undefined,
+    [since]: "0x0",
+  });
+}
+
+export function isTypeId(c: Cell) {
+  const type = c.cellOutput.type;
+  return type?.codeHash === TYPE_ID_CODE_HASH && type.hashType === "type";
+}
+
+export function typeIdArgs(
+  firstInput: OutPoint,
+  outputIndex: number,
+  firstInputSince: PackedSince = "0x0",
+) {
+  return ckbHash(
+    bytes.concat(
+      CellInput.pack({ previousOutput: firstInput, since: firstInputSince }),
+      Uint64.pack(outputIndex),
+    ),
+  );
+}
+
+export const errorMissingFirstInput =
+  "Type ID needs the transaction first input to be already set";
+export function typeIdArgsFrom(
+  tx: TransactionSkeletonType,
+  outputIndex: number,
+) {
+  const outPoint = tx.inputs.get(0)?.outPoint;
+  if (!outPoint) {
+    throw Error(errorMissingFirstInput);
+  }
+  return typeIdArgs(outPoint, outputIndex, tx.inputSinces.get(0, "0x0"));
+}
+
+// Notes:
+// - Type ID cells are appended after the current outputs, so their args depend on tx.outputs.size
+// - The first input and these outputs become fixed entries, so later matched additions fail instead of
+//   silently invalidating the args
+export function addTypeIdCells(
+  tx: TransactionSkeletonType,
+  outputs: readonly I8Cell[],
+) {
+  const typeIdCells = outputs.map((c, i) => {
+    const { lock, capacity } = c.cellOutput;
+    const type = typeIdScript(typeIdArgsFrom(tx, tx.outputs.size + i));
+    // Capacity must also cover the Type ID script
+    const minimal = I8Cell.from({ lock, type, data: c.data });
+    return I8Cell.from({
+      ...minimal,
+      capacity: hex(max(BigInt(capacity), BigInt(minimal.cellOutput.capacity))),
+    });
+  });
+
+  tx = addCells(tx, "append", [], typeIdCells);
+  const fixedEntries = parseFixedEntries(tx);
+  tx = setFixedEntries(
+    tx,
+    fixedEntries
+      .set("inputs", max(fixedEntries.inputs, 0))
+      .set("outputs", tx.outputs.size - 1),
+  );
+
+  return { tx, typeIdCells };
+}
+
+export const errorNotTypeIdCell = "Cell type is not a Type ID";
+export function upgradeTypeIdCell(
+  tx: TransactionSkeletonType,
+  typeIdCell: I8Cell,
+  data: HexString,
+  lock: I8Script = typeIdCell.cellOutput.lock,
+) {
+  if (!isTypeId(typeIdCell)) {
+    throw Error(errorNotTypeIdCell);
+  }
+
+  // The Type ID script is preserved, so the upgraded cell keeps its identity
+  const { type } = typeIdCell.cellOutput;
+  const minimal = I8Cell.from({ lock, type, data });
+  const upgraded = I8Cell.from({
+    ...minimal,
+    capacity: hex(
+      max(
+        BigInt(typeIdCell.cellOutput.capacity),
+        BigInt(minimal.cellOutput.capacity),
+      ),
+    ),
+  });
+
+  return addCells(tx, "matched", [typeIdCell], [upgraded]);
+}
+
+export const errorDuplicateTypeId = "Found more than one cell with Type ID";
+export function typeIdSifter(
+  inputs: readonly Cell[],
+  typeId: I8Script | HexString,
+  lockExpander: (c: Cell) => I8Script | undefined,
+) {
+  const type = typeof typeId === "string" ? typeIdScript(typeId) : typeId;
+  const { types, notTypes } = typeSifter(inputs, type, lockExpander);
+
+  if (types.length > 1) {
+    throw Error(errorDuplicateTypeId);
+  }
+
+  return { typeIdCell: types[0], notTypeIds: notTypes };
+}
@@ -0,0 +1,101 @@
+import type { Cell, Hash } from "@ckb-lumos/base";
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { computeScriptHash } from "@ckb-lumos/base/lib/utils.js";
+import { hexify } from "@ckb-lumos/codec/lib/bytes.js";
+import { I8Cell, I8Script } from "./cell.js";
+import type { ConfigAdapter } from "./config.js";
+import { addCells } from "./transaction.js";
+import { scriptEq, typeSifter } from "./utils.js";
+import { Uint128 } from "./codec.js";
+
+export function udtScriptFrom(
+  owner: Hash | I8Script,
+  config: ConfigAdapter,
+  name: "XUDT" | "SUDT" = "XUDT",
+) {
+  return I8Script.from({
+    ...config.defaultScript(name),
+    args: typeof owner === "string" ? owner : computeScriptHash(owner),
+  });
+}
+
+// Both sUDT and xUDT store the amount in the first 16 bytes of data, as little-endian u128
+const udtAmountHexLength = 2 + 2 * Uint128.byteLength;
+export function isUdtData(data: string) {
+  return data.length >= udtAmountHexLength;
+}
+
+export const errorInvalidUdtData = "UDT cell data is shorter than 16 bytes";
+export function udtAmount(c: Cell) {
+  if (!isUdtData(c.data)) {
+    throw Error(errorInvalidUdtData);
+  }
+  return Uint128.unpack(c.data.slice(0, udtAmountHexLength));
+}
+
+export function udtSifter(
+  inputs: readonly Cell[],
+  udtType: I8Script,
+  accountLockExpander: (c: Cell) => I8Script | undefined,
+) {
+  const { types, notTypes } = typeSifter(inputs, udtType, accountLockExpander);
+
+  const udts: I8Cell[] = [];
+  const amounts: bigint[] = [];
+  const notUdts = notTypes;
+  for (const c of types) {
+    if (!isUdtData(c.data)) {
+      notUdts.push(c);
+      continue;
+    }
+
+    udts.push(c);
+    amounts.push(udtAmount(c));
+  }
+
+  return { udts, amounts, notUdts };
+}
+
+export function udtDelta(tx: TransactionSkeletonType, udtType: I8Script) {
+  let udtDelta = 0n;
+  for (const c of tx.inputs) {
+    if (scriptEq(c.cellOutput.type, udtType)) {
+      udtDelta += udtAmount(c);
+    }
+  }
+
+  for (const c of tx.outputs) {
+    if (scriptEq(c.cellOutput.type, udtType)) {
+      udtDelta -= udtAmount(c);
+    }
+  }
+
+  return udtDelta;
+}
+
+// Notes:
+// - UDT change cell is always added as last output cell and it's funded by CKB from the transaction
+// - UDT change cell is added only if freeUdt > 0n
+// - If freeUdt < 0n, it's a safe invalid transaction, it must be checked with sign of freeUdt
+// - addUdtChange must be called before addCkbChange, so the CKB change can pay for the UDT change cell
+export function addUdtChange(
+  tx: TransactionSkeletonType,
+  accountLock: I8Script,
+  udtType: I8Script,
+) {
+  const delta = udtDelta(tx, udtType);
+
+  if (delta > 0n) {
+    const changeCell = I8Cell.from({
+      lock: accountLock,
+      type: udtType,
+      data: hexify(Uint128.pack(delta)),
+    });
+    tx = addCells(tx, "append", [], [changeCell]);
+  }
+
+  return {
+    tx,
+    freeUdt: delta,
+  };
+}
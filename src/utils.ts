@@ -1,8 +1,17 @@
-import { I8Cell, I8Script, type I8Header } from "./cell.js";
-import type { Cell, Script } from "@ckb-lumos/base";
 import {
-  parseAbsoluteEpochSince,
+  I8Cell,
+  I8CellDep,
+  I8Script,
+  cellDeps,
+  headerDeps,
+  since,
+  witness,
+  type I8Header,
+} from "./cell.js";
+import type { Cell, CellDep, PackedSince, Script } from "@ckb-lumos/base";
+import {
   parseEpoch,
+  parseSince,
   type EpochSinceValue,
 } from "@ckb-lumos/base/lib/since.js";
 
@@ -13,6 +22,10 @@ export function hex(n: number | bigint) {
   return "0x" + n.toString(16);
 }
 
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 export function max<T>(...numbers: T[]) {
   return numbers.reduce((a, b) => (a > b ? a : b));
 }
@@ -25,6 +38,31 @@ export function lockExpanderFrom(s: I8Script) {
   return (c: Cell) => (scriptEq(c.cellOutput.lock, s) ? s : undefined);
 }
 
+// Witness placeholder is carried by the lock itself, so addCells sets it in the lock witness of the first input of its group
+export function accountLockFrom(
+  lock: Script,
+  deps: readonly CellDep[],
+  witnessPlaceholderSize: number,
+  packedSince: PackedSince = "0x0",
+) {
+  return I8Script.from({
+    codeHash: lock.codeHash,
+    hashType: lock.hashType,
+    args: lock.args,
+    [cellDeps]: deps.map((d) => I8CellDep.from(d)),
+    [headerDeps]: [],
+    [witness]:
+      witnessPlaceholderSize > 0
+        ? "0x" + "00".repeat(witnessPlaceholderSize)
+        : undefined,
+    [since]: packedSince,
+  });
+}
+
+export function multiLockExpanderFrom(accountLocks: readonly I8Script[]) {
+  return (c: Cell) => accountLocks.find((s) => scriptEq(c.cellOutput.lock, s));
+}
+
 export function capacitySifter(
   inputs: readonly Cell[],
   lockExpander: (c: Cell) => I8Script | undefined,
@@ -119,13 +157,12 @@ export function maturityDiscriminator<T>(
   tt: readonly Readonly<T>[],
   sinceOf: (t: T) => string,
   tipHeader: I8Header,
+  headerOf?: (t: T) => I8Header | undefined,
 ) {
-  const tipEpoch = parseEpoch(tipHeader.epoch);
   const mature: Readonly<T>[] = [];
   const notMature: Readonly<T>[] = [];
   for (const t of tt) {
-    const c = epochSinceCompare(tipEpoch, parseAbsoluteEpochSince(sinceOf(t)));
-    if (c >= 0) {
+    if (isMature(sinceOf(t), tipHeader, headerOf?.(t))) {
       mature.push(t);
     } else {
       notMature.push(t);
@@ -134,8 +171,89 @@ export function maturityDiscriminator<T>(
   return { mature, notMature };
 }
 
+export type SinceValue = ReturnType<typeof parseSince>;
+
+export const errorMissingSinceHeader =
+  "Relative since needs the header of the block including the cell";
+// Notes:
+// - Absolute timestamp since is checked against the tip timestamp instead of the median of the past 37 blocks
+// - Header timestamps are in milliseconds, while since timestamps are in seconds
+export function isMature(
+  packedSince: PackedSince,
+  tipHeader: I8Header,
+  cellHeader?: I8Header,
+) {
+  const s = parseSince(packedSince);
+  if (s.relative && !cellHeader) {
+    throw Error(errorMissingSinceHeader);
+  }
+
+  switch (s.type) {
+    case "blockNumber": {
+      const base = s.relative ? BigInt(cellHeader!.number) : 0n;
+      return BigInt(tipHeader.number) >= base + s.value;
+    }
+    case "blockTimestamp": {
+      const base = s.relative ? BigInt(cellHeader!.timestamp) / 1000n : 0n;
+      return BigInt(tipHeader.timestamp) / 1000n >= base + s.value;
+    }
+    case "epochNumber": {
+      const value = normalizeEpoch(s.value);
+      const target = s.relative
+        ? epochSinceAdd(parseEpoch(cellHeader!.epoch), value)
+        : value;
+      return epochSinceCompare(parseEpoch(tipHeader.epoch), target) >= 0;
+    }
+  }
+}
+
+export const errorIncompatibleSinces =
+  "Unable to compare sinces with different metric or relativity";
+export function sinceCompare(s0: SinceValue, s1: SinceValue): 1 | 0 | -1 {
+  if (s0.relative !== s1.relative || s0.type !== s1.type) {
+    throw Error(errorIncompatibleSinces);
+  }
+
+  if (s0.type === "epochNumber") {
+    return epochSinceCompare(
+      normalizeEpoch(s0.value),
+      normalizeEpoch(s1.value as EpochSinceValue),
+    );
+  }
+
+  const [v0, v1] = [s0.value, s1.value as bigint];
+  if (v0 < v1) {
+    return -1;
+  }
+  if (v0 > v1) {
+    return 1;
+  }
+  return 0;
+}
+
+// Merge two sinces into the stricter one, zero since means no constraint
+export function sinceMerge(s0: PackedSince, s1: PackedSince): PackedSince {
+  if (BigInt(s0) === 0n || s0 === s1) {
+    return s1;
+  }
+  if (BigInt(s1) === 0n) {
+    return s0;
+  }
+  return sinceCompare(parseSince(s0), parseSince(s1)) === -1 ? s1 : s0;
+}
+
+// An epoch with zero length is interpreted by CKB as a whole epoch number
+function normalizeEpoch(e: EpochSinceValue): EpochSinceValue {
+  return e.length === 0 ? { number: e.number, index: 0, length: 1 } : e;
+}
+
 export const errorBothScriptUndefined =
   "Comparing two Scripts that both are undefined";
+// Key identifying a script, for example to group cells by lock
+export function scriptKey(s: Script) {
+  return `${s.codeHash}-${s.hashType}-${s.args}`;
+}
+
 export function scriptEq(s0: Script | undefined, s1: Script | undefined) {
   if (!s0 && !s1) {
     throw Error(errorBothScriptUndefined);
@@ -211,15 +329,30 @@ export function logSplit<T>(array: readonly T[]) {
 }
 
 // Durstenfeld shuffle, see https://en.wikipedia.org/wiki/Fisher%E2%80%93Yates_shuffle
-export function shuffle<T>(a: readonly T[]) {
+export function shuffle<T>(
+  a: readonly T[],
+  random: () => number = Math.random,
+) {
   const array = [...a];
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [array[i], array[j]] = [array[j], array[i]];
   }
   return array;
 }
 
+// Mulberry32, a small seedable PRNG with the same output range as Math.random, see https://gist.github.com/tommyettinger/46a874533244883189143505d203312c
+export function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 // BinarySearch is translated from https://go.dev/src/sort/search.go, credits to the respective authors.
 
 // BinarySearch uses binary search to find and return the smallest index i
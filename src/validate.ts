@@ -0,0 +1,193 @@
+import type { TransactionSkeletonType } from "@ckb-lumos/helpers";
+import { minimalCellCapacityCompatible } from "@ckb-lumos/helpers";
+import { WitnessArgs } from "@ckb-lumos/base/lib/blockchain.js";
+import { I8Cell, headerDeps, since } from "./cell.js";
+import type { ConfigAdapter } from "./config.js";
+import { ckbDelta, isDaoWithdrawalRequest } from "./dao.js";
+import { parseFixedEntries } from "./transaction.js";
+import { lockGroups } from "./signing.js";
+import { max, sinceMerge } from "./utils.js";
+import { Uint64 } from "./codec.js";
+
+export type TxDiagnosticCode =
+  | "outputBelowOccupiedCapacity"
+  | "excessWitnesses"
+  | "missingLockGroupWitness"
+  | "malformedWitness"
+  | "sinceMismatch"
+  | "sinceConflict"
+  | "daoMissingHeaderDeps"
+  | "daoWrongHeaderIndex"
+  | "fixedEntryOutOfRange"
+  | "duplicateInput"
+  | "negativeCkbDelta";
+
+export interface TxDiagnostic {
+  code: TxDiagnosticCode;
+  message: string;
+  // Index of the offending entry in its field, if any
+  index?: number;
+}
+
+const fixedFields = ["cellDeps", "headerDeps", "inputs", "outputs"] as const;
+export function validateTx(
+  tx: TransactionSkeletonType,
+  config: ConfigAdapter,
+): TxDiagnostic[] {
+  const diagnostics: TxDiagnostic[] = [];
+  const report = (code: TxDiagnosticCode, message: string, index?: number) =>
+    diagnostics.push({ code, message, index });
+
+  // Outputs capacity
+  tx.outputs.forEach((c, index) => {
+    const occupied = minimalCellCapacityCompatible(c, {
+      validate: false,
+    }).toBigInt();
+    if (BigInt(c.cellOutput.capacity) < occupied) {
+      report(
+        "outputBelowOccupiedCapacity",
+        `Output capacity is below its occupied capacity of ${occupied}`,
+        index,
+      );
+    }
+  });
+
+  // Witnesses
+  const witnessesLength = max(tx.inputs.size, tx.outputs.size);
+  if (tx.witnesses.size > witnessesLength) {
+    report(
+      "excessWitnesses",
+      `Witnesses are more than max(inputs, outputs) = ${witnessesLength}`,
+      witnessesLength,
+    );
+  }
+
+  // Only the first input of each lock group needs a witness
+  for (const { indexes } of lockGroups(tx)) {
+    const index = indexes[0];
+    if (index >= tx.witnesses.size) {
+      report(
+        "missingLockGroupWitness",
+        "First input of lock group has no witness",
+        index,
+      );
+    }
+  }
+
+  const unpackedWitnesses = tx.witnesses.map((w, index) => {
+    try {
+      return WitnessArgs.unpack(w);
+    } catch {
+      if (index < tx.inputs.size) {
+        report("malformedWitness", "Input witness is not a WitnessArgs", index);
+      }
+      return undefined;
+    }
+  });
+
+  // Sinces
+  tx.inputs.forEach((c, index) => {
+    if (!(c instanceof I8Cell)) {
+      return;
+    }
+    const lockSince = c.cellOutput.lock[since];
+    const typeSince = c.cellOutput.type ? c.cellOutput.type[since] : lockSince;
+    let expected: string;
+    try {
+      expected = sinceMerge(lockSince, typeSince);
+    } catch {
+      report(
+        "sinceConflict",
+        "Input lock and type sinces are not comparable",
+        index,
+      );
+      return;
+    }
+    const actual = tx.inputSinces.get(index, "0x0");
+    if (BigInt(actual) !== BigInt(expected)) {
+      report(
+        "sinceMismatch",
+        `Input since ${actual} differs from cell since ${expected}`,
+        index,
+      );
+    }
+  });
+
+  // NervosDAO withdrawals
+  let isDeltaComputable = true;
+  tx.inputs.forEach((c, index) => {
+    if (!isDaoWithdrawalRequest(c, config)) {
+      return;
+    }
+
+    const deps = c instanceof I8Cell ? c.cellOutput.type![headerDeps] : [];
+    const [withdrawalHeader, depositHeader] = deps;
+    if (!withdrawalHeader || !depositHeader) {
+      isDeltaComputable = false;
+      report(
+        "daoMissingHeaderDeps",
+        "Withdrawal request has no header metadata",
+        index,
+      );
+      return;
+    }
+
+    for (const h of deps) {
+      if (!tx.headerDeps.includes(h.hash)) {
+        report(
+          "daoMissingHeaderDeps",
+          `Header dep ${h.hash} is missing`,
+          index,
+        );
+      }
+    }
+
+    const inputType = unpackedWitnesses.get(index)?.inputType;
+    if (
+      !inputType ||
+      inputType.length !== 2 + 2 * Uint64.byteLength ||
+      tx.headerDeps.get(Number(Uint64.unpack(inputType))) !== depositHeader.hash
+    ) {
+      report(
+        "daoWrongHeaderIndex",
+        "Witness input type does not point to the deposit header dep",
+        index,
+      );
+    }
+  });
+
+  // Fixed entries
+  const fixedEntries = parseFixedEntries(tx);
+  for (const field of fixedFields) {
+    if (fixedEntries[field] >= tx[field].size) {
+      report(
+        "fixedEntryOutOfRange",
+        `Fixed ${field} entry is out of range`,
+        fixedEntries[field],
+      );
+    }
+  }
+
+  // Duplicate inputs
+  const outPoints = new Set<string>();
+  tx.inputs.forEach(({ outPoint }, index) => {
+    if (!outPoint) {
+      return;
+    }
+    const key = `${outPoint.txHash}-${outPoint.index}`;
+    if (outPoints.has(key)) {
+      report("duplicateInput", `Input ${key} is spent twice`, index);
+    }
+    outPoints.add(key);
+  });
+
+  // CKB balance
+  if (isDeltaComputable) {
+    const delta = ckbDelta(tx, config);
+    if (delta < 0n) {
+      report("negativeCkbDelta", `Outputs exceed inputs by ${-delta}`);
+    }
+  }
+
+  return diagnostics;
+}